@@ -1,45 +1,226 @@
 import { Buffer } from 'node:buffer';
-import { FormData } from 'undici';
+import { randomUUID } from 'node:crypto';
+import { createReadStream, promises as fs } from 'node:fs';
+import { basename } from 'node:path';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
 import { BaseAPI } from './BaseAPI.js';
-import type { RequestParams } from '../types/index.js';
+import { MAX_PHOTO_SIZE_BYTES } from '../constants.js';
+import { ValidationError } from '../errors.js';
+import type { CallOptions, RequestParams } from '../types/index.js';
+import { IMAGE_SIGNATURE_LENGTH, detectImageType, type ImageType } from '../utils/media.js';
+
+/** A file path, raw bytes, a `Blob` or a readable stream. */
+export type PhotoSource = string | Buffer | ArrayBuffer | Uint8Array | Blob | NodeJS.ReadableStream;
+
+export interface UploadProgress {
+  filename: string;
+  /** Bytes of the file handed to the transport so far. */
+  loaded: number;
+  /** File size, when known up front. Unknown for plain streams. */
+  total?: number;
+  /** `loaded / total` as a value from 0 to 1, when the size is known. */
+  progress?: number;
+}
+
+export interface UploadPhotoOptions extends CallOptions {
+  /** Called as the file is read into the request. The client also emits `uploadProgress`. */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Largest accepted file size. Defaults to 10 MiB. */
+  maxBytes?: number;
+  /** Image formats to accept. Defaults to JPEG, PNG, GIF and WebP. */
+  allowedTypes?: ImageType[];
+}
+
+interface ResolvedSource {
+  chunks: AsyncIterator<Uint8Array | string>;
+  size?: number;
+  filename?: string;
+}
+
+const DEFAULT_ALLOWED_TYPES: ImageType[] = ['jpeg', 'png', 'gif', 'webp'];
 
 export class MediaAPI extends BaseAPI {
-  async uploadPhoto(fileBuffer: ArrayBuffer | Buffer, filename: string, caption?: string) {
-    const form = new FormData();
-    const buffer = Buffer.isBuffer(fileBuffer) ? fileBuffer : Buffer.from(fileBuffer);
-    form.append('file', buffer, filename);
-    if (caption) {
-      form.append('caption', caption);
+  /**
+   * Uploads a photo as a streamed multipart request.
+   *
+   * The image type is detected from the file's magic bytes, and unsupported or oversized files
+   * are rejected with a `ValidationError` before anything is sent. Streams of unknown length
+   * are checked as they are read and the upload is abandoned once they pass the limit.
+   * @param source A file path, bytes, a `Blob` or a readable stream
+   * @param filename Name sent to the server. Defaults to the file or blob name, or `photo.<ext>`.
+   * @param caption Optional caption
+   * @param options `signal` and `timeoutMs`, plus progress reporting and format and size limits
+   */
+  async uploadPhoto(source: PhotoSource, filename?: string, caption?: string, options: UploadPhotoOptions = {}) {
+    const { onProgress, maxBytes = MAX_PHOTO_SIZE_BYTES, allowedTypes = DEFAULT_ALLOWED_TYPES, ...callOptions } = options;
+    const resolved = await this.resolveSource(source);
+    const { chunks, size } = resolved;
+
+    try {
+      if (size !== undefined && size > maxBytes) {
+        throw new ValidationError(`Photo is ${size} bytes, larger than the ${maxBytes} byte limit`);
+      }
+
+      const head = await this.readHead(chunks);
+      const detected = detectImageType(Buffer.concat(head));
+      if (!detected || !allowedTypes.includes(detected.type)) {
+        throw new ValidationError(
+          `Unsupported photo format${detected ? ` "${detected.type}"` : ''}. Expected one of: ${allowedTypes.join(', ')}`,
+        );
+      }
+
+      const name = filename ?? resolved.filename ?? `photo.${detected.extension}`;
+      const boundary = `----interpal-${randomUUID()}`;
+      const preamble = Buffer.from(
+        `--${boundary}\r\n` +
+          `Content-Disposition: form-data; name="file"; filename="${name.replace(/"/g, '%22')}"\r\n` +
+          `Content-Type: ${detected.mimeType}\r\n\r\n`,
+      );
+      const epilogue = Buffer.from(
+        (caption ? `\r\n--${boundary}\r\nContent-Disposition: form-data; name="caption"\r\n\r\n${caption}` : '') +
+          `\r\n--${boundary}--\r\n`,
+      );
+
+      // Cancelled by the caller, or from inside the body once a stream of unknown length grows too large.
+      const controller = new AbortController();
+      const callerSignal = callOptions.signal;
+      const onAbort = () => controller.abort(callerSignal?.reason);
+      if (callerSignal?.aborted) onAbort();
+      callerSignal?.addEventListener('abort', onAbort, { once: true });
+      let tooLarge: ValidationError | undefined;
+
+      const client = this.client;
+      async function* body(): AsyncGenerator<Uint8Array> {
+        let loaded = 0;
+        const report = () => {
+          const progress: UploadProgress = {
+            filename: name,
+            loaded,
+            total: size,
+            progress: size ? loaded / size : undefined,
+          };
+          onProgress?.(progress);
+          client?.emit('uploadProgress', progress);
+        };
+
+        yield preamble;
+        report();
+        let chunk: Buffer | undefined = Buffer.concat(head);
+        while (chunk) {
+          loaded += chunk.length;
+          if (loaded > maxBytes) {
+            tooLarge = new ValidationError(`Photo is larger than the ${maxBytes} byte limit`);
+            controller.abort(tooLarge);
+            return;
+          }
+          yield chunk;
+          report();
+          const { value, done } = await chunks.next();
+          chunk = done ? undefined : Buffer.from(value);
+        }
+        yield epilogue;
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': `multipart/form-data; boundary=${boundary}` };
+      if (size !== undefined) {
+        headers['Content-Length'] = String(preamble.length + size + epilogue.length);
+      }
+
+      try {
+        // A streamed body cannot be replayed, so neither retries nor re-authentication resend it.
+        return await this.http.post('/v1/photo', Readable.from(body()), headers, {
+          ...callOptions,
+          signal: controller.signal,
+          retry: false,
+        });
+      } catch (error) {
+        throw tooLarge ?? error;
+      } finally {
+        callerSignal?.removeEventListener('abort', onAbort);
+      }
+    } finally {
+      await chunks.return?.();
+    }
+  }
+
+  /**
+   * Normalises every supported source into an async byte iterator.
+   */
+  private async resolveSource(source: PhotoSource): Promise<ResolvedSource> {
+    if (typeof source === 'string') {
+      const stat = await fs.stat(source).catch(() => undefined);
+      if (!stat?.isFile()) {
+        throw new ValidationError(`Photo file not found: ${source}`);
+      }
+      return { chunks: this.iterate(createReadStream(source)), size: stat.size, filename: basename(source) };
+    }
+
+    if (source instanceof Blob) {
+      const stream = Readable.fromWeb(source.stream() as WebReadableStream<Uint8Array>);
+      const filename = 'name' in source && typeof source.name === 'string' ? source.name : undefined;
+      return { chunks: this.iterate(stream), size: source.size, filename };
+    }
+
+    if (source instanceof ArrayBuffer || source instanceof Uint8Array) {
+      const buffer = Buffer.isBuffer(source)
+        ? source
+        : source instanceof ArrayBuffer
+          ? Buffer.from(source)
+          : Buffer.from(source.buffer, source.byteOffset, source.byteLength);
+      return { chunks: this.iterate(Readable.from([buffer])), size: buffer.length };
+    }
+
+    const path = (source as { path?: unknown }).path;
+    return { chunks: this.iterate(source), filename: typeof path === 'string' ? basename(path) : undefined };
+  }
+
+  private iterate(stream: NodeJS.ReadableStream): AsyncIterator<Uint8Array | string> {
+    return (stream as AsyncIterable<Uint8Array | string>)[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Reads at least enough leading bytes to identify the image type.
+   */
+  private async readHead(chunks: AsyncIterator<Uint8Array | string>): Promise<Buffer[]> {
+    const head: Buffer[] = [];
+    let length = 0;
+    while (length < IMAGE_SIGNATURE_LENGTH) {
+      const { value, done } = await chunks.next();
+      if (done) break;
+      const chunk = Buffer.from(value);
+      head.push(chunk);
+      length += chunk.length;
     }
-    return this.http.post('/v1/photo', form);
+    return head;
   }
 
-  async getPhoto(photoId: string) {
-    return this.http.get(`/v1/photo/${photoId}`);
+  async getPhoto(photoId: string, options: CallOptions = {}) {
+    return this.http.get(`/v1/photo/${photoId}`, undefined, options);
   }
 
-  async deletePhoto(photoId: string) {
-    return this.http.delete(`/v1/photo/${photoId}`);
+  async deletePhoto(photoId: string, options: CallOptions = {}) {
+    return this.http.delete(`/v1/photo/${photoId}`, options);
   }
 
-  async getUserPhotos(userId: string, params: RequestParams = {}) {
-    return this.http.get(`/v1/photo/user/${userId}`, params);
+  async getUserPhotos(userId: string, params: RequestParams = {}, options: CallOptions = {}) {
+    return this.http.get(`/v1/photo/user/${userId}`, params, options);
   }
 
-  async getAlbums(userId: string) {
-    return this.http.get(`/v1/album/user/${userId}`);
+  async getAlbums(userId: string, options: CallOptions = {}) {
+    return this.http.get(`/v1/album/user/${userId}`, undefined, options);
   }
 
-  async createAlbum(name: string, description?: string) {
-    return this.http.post('/v1/album', { name, description });
+  async createAlbum(name: string, description?: string, options: CallOptions = {}) {
+    return this.http.post('/v1/album', { name, description }, undefined, options);
   }
 
-  async updateAlbum(albumId: string, payload: Record<string, unknown>) {
-    return this.http.put(`/v1/album/${albumId}`, payload);
+  async updateAlbum(albumId: string, payload: Record<string, unknown>, options: CallOptions = {}) {
+    return this.http.put(`/v1/album/${albumId}`, payload, options);
   }
 
-  async deleteAlbum(albumId: string) {
-    return this.http.delete(`/v1/album/${albumId}`);
+  async deleteAlbum(albumId: string, options: CallOptions = {}) {
+    return this.http.delete(`/v1/album/${albumId}`, options);
   }
 }
 
@@ -1,11 +1,11 @@
 import { BaseAPI } from './BaseAPI.js';
 import { Thread, type ThreadData } from '../models/Thread.js';
 import { Message, type MessageData } from '../models/Message.js';
-import type { RequestParams } from '../types/index.js';
+import type { CallOptions, RequestParams } from '../types/index.js';
 
 export class MessagesAPI extends BaseAPI {
-  async getThreads(limit = 50, offset = 0): Promise<Thread[]> {
-    const data = await this.http.get<ThreadData[] | { threads?: ThreadData[] }>('/v1/thread', { limit, offset });
+  async getThreads(limit = 50, offset = 0, options: CallOptions = {}): Promise<Thread[]> {
+    const data = await this.http.get<ThreadData[] | { threads?: ThreadData[] }>('/v1/thread', { limit, offset }, options);
     const threads = (Array.isArray(data) ? data : data?.threads ?? []) as ThreadData[];
     if (!this.client) {
       throw new Error('MessagesAPI requires a client instance');
@@ -13,16 +13,20 @@ export class MessagesAPI extends BaseAPI {
     return threads.map((entry) => this.state?.createThread?.(entry) ?? new Thread(this.client!, entry));
   }
 
-  async getUserThread(userId: string, includeRelation = false): Promise<Thread> {
-    const data = await this.http.get<ThreadData>(`/v1/thread/user/${userId}`, { include_relation: includeRelation });
+  async getUserThread(userId: string, includeRelation = false, options: CallOptions = {}): Promise<Thread> {
+    const data = await this.http.get<ThreadData>(
+      `/v1/thread/user/${userId}`,
+      { include_relation: includeRelation },
+      options,
+    );
     if (!this.client) {
       throw new Error('MessagesAPI requires a client instance');
     }
     return this.state?.createThread?.(data) ?? new Thread(this.client, data);
   }
 
-  async getThreadMessages(threadId: string, params: RequestParams = {}): Promise<Message[]> {
-    const data = await this.http.get<MessageData[] | { messages?: MessageData[] }>(`/v1/thread/${threadId}`, params);
+  async getThreadMessages(threadId: string, params: RequestParams = {}, options: CallOptions = {}): Promise<Message[]> {
+    const data = await this.http.get<MessageData[] | { messages?: MessageData[] }>(`/v1/thread/${threadId}`, params, options);
     const messages = (Array.isArray(data) ? data : data?.messages ?? []) as MessageData[];
     if (!this.client) {
       throw new Error('MessagesAPI requires a client instance');
@@ -30,28 +34,39 @@ export class MessagesAPI extends BaseAPI {
     return messages.map((entry) => this.state?.createMessage?.(entry) ?? new Message(this.client!, entry));
   }
 
-  async sendMessage(threadId: string, content: string, extra: Record<string, unknown> = {}): Promise<Message> {
+  async sendMessage(
+    threadId: string,
+    content: string,
+    extra: Record<string, unknown> = {},
+    options: CallOptions = {},
+  ): Promise<Message> {
     const payload = {
       thread_id: threadId,
       message: content,
       ...extra,
     };
-    const data = await this.http.post<MessageData>('/v1/message', payload);
+    const data = await this.http.post<MessageData>('/v1/message', payload, undefined, options);
     if (!this.client) {
       throw new Error('MessagesAPI requires a client instance');
     }
     return this.state?.createMessage?.(data) ?? new Message(this.client, data);
   }
 
-  async sendGif(threadId: string, gifUrl: string, tmpId = 'tmp'): Promise<Message> {
+  async sendGif(threadId: string, gifUrl: string, tmpId = 'tmp', options: CallOptions = {}): Promise<Message> {
     return this.sendMessage(threadId, '', {
       attachment_type: 'gif',
       gif_attachment_url: gifUrl,
       tmp_id: tmpId,
-    });
+    }, options);
   }
 
-  async sendMessageCorrection(threadId: string, message: string, attachmentId: string, tmpId?: string): Promise<Message> {
+  async sendMessageCorrection(
+    threadId: string,
+    message: string,
+    attachmentId: string,
+    tmpId?: string,
+    options: CallOptions = {},
+  ): Promise<Message> {
     const payload: Record<string, unknown> = {
       thread_id: threadId,
       message,
@@ -61,23 +76,23 @@ export class MessagesAPI extends BaseAPI {
     if (tmpId) {
       payload.tmp_id = tmpId;
     }
-    const data = await this.http.post<MessageData>('/v1/message', payload);
+    const data = await this.http.post<MessageData>('/v1/message', payload, undefined, options);
     if (!this.client) {
       throw new Error('MessagesAPI requires a client instance');
     }
     return this.state?.createMessage?.(data) ?? new Message(this.client, data);
   }
 
-  async setTyping(threadId: string, typing = true): Promise<void> {
-    await this.http.post('/v1/thread/typing', { thread_id: threadId, typing });
+  async setTyping(threadId: string, typing = true, options: CallOptions = {}): Promise<void> {
+    await this.http.post('/v1/thread/typing', { thread_id: threadId, typing }, undefined, options);
   }
 
-  async deleteMessage(messageId: string, threadId?: string): Promise<void> {
-    await this.http.delete(`/v1/message/${messageId}${threadId ? `?thread_id=${threadId}` : ''}`);
+  async deleteMessage(messageId: string, threadId?: string, options: CallOptions = {}): Promise<void> {
+    await this.http.delete(`/v1/message/${messageId}${threadId ? `?thread_id=${threadId}` : ''}`, options);
   }
 
-  async readMessage(threadId: string, messageId: string): Promise<void> {
-    await this.http.put(`/v1/thread/${threadId}/viewed`, { message_id: messageId });
+  async readMessage(threadId: string, messageId: string, options: CallOptions = {}): Promise<void> {
+    await this.http.put(`/v1/thread/${threadId}/viewed`, { message_id: messageId }, options);
   }
 }
 
@@ -1,20 +1,21 @@
 import { BaseAPI } from './BaseAPI.js';
+import type { CallOptions } from '../types/index.js';
 
 export class NotificationsAPI extends BaseAPI {
-  async getNotifications(limit = 20, offset = 0) {
-    return this.http.get('/v1/notification', { limit, offset });
+  async getNotifications(limit = 20, offset = 0, options: CallOptions = {}) {
+    return this.http.get('/v1/notification', { limit, offset }, options);
   }
 
-  async markNotificationRead(notificationId: string) {
-    return this.http.put(`/v1/notification/${notificationId}/read`);
+  async markNotificationRead(notificationId: string, options: CallOptions = {}) {
+    return this.http.put(`/v1/notification/${notificationId}/read`, undefined, options);
   }
 
-  async markAllRead() {
-    return this.http.put('/v1/notification/read/all');
+  async markAllRead(options: CallOptions = {}) {
+    return this.http.put('/v1/notification/read/all', undefined, options);
   }
 
-  async deleteNotification(notificationId: string) {
-    return this.http.delete(`/v1/notification/${notificationId}`);
+  async deleteNotification(notificationId: string, options: CallOptions = {}) {
+    return this.http.delete(`/v1/notification/${notificationId}`, options);
   }
 }
 
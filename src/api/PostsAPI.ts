@@ -1,41 +1,41 @@
 import { BaseAPI } from './BaseAPI.js';
-import type { RequestParams } from '../types/index.js';
+import type { CallOptions, RequestParams } from '../types/index.js';
 
 export class PostsAPI extends BaseAPI {
-  async createPost(payload: Record<string, unknown>) {
-    return this.http.post('/v1/post', payload);
+  async createPost(payload: Record<string, unknown>, options: CallOptions = {}) {
+    return this.http.post('/v1/post', payload, undefined, options);
   }
 
-  async getPost(postId: string, params: RequestParams = {}) {
-    return this.http.get(`/v1/post/${postId}`, params);
+  async getPost(postId: string, params: RequestParams = {}, options: CallOptions = {}) {
+    return this.http.get(`/v1/post/${postId}`, params, options);
   }
 
-  async getFeed(feedType: 'global' | 'following' = 'global', limit = 20, offset = 0) {
-    return this.http.get('/v1/post/feed', { type: feedType, limit, offset });
+  async getFeed(feedType: 'global' | 'following' = 'global', limit = 20, offset = 0, options: CallOptions = {}) {
+    return this.http.get('/v1/post/feed', { type: feedType, limit, offset }, options);
   }
 
-  async updatePost(postId: string, payload: Record<string, unknown>) {
-    return this.http.put(`/v1/post/${postId}`, payload);
+  async updatePost(postId: string, payload: Record<string, unknown>, options: CallOptions = {}) {
+    return this.http.put(`/v1/post/${postId}`, payload, options);
   }
 
-  async deletePost(postId: string) {
-    return this.http.delete(`/v1/post/${postId}`);
+  async deletePost(postId: string, options: CallOptions = {}) {
+    return this.http.delete(`/v1/post/${postId}`, options);
   }
 
-  async getComments(postId: string, limit = 20, offset = 0) {
-    return this.http.get(`/v1/post/${postId}/comment`, { limit, offset });
+  async getComments(postId: string, limit = 20, offset = 0, options: CallOptions = {}) {
+    return this.http.get(`/v1/post/${postId}/comment`, { limit, offset }, options);
   }
 
-  async createComment(postId: string, payload: Record<string, unknown>) {
-    return this.http.post(`/v1/post/${postId}/comment`, payload);
+  async createComment(postId: string, payload: Record<string, unknown>, options: CallOptions = {}) {
+    return this.http.post(`/v1/post/${postId}/comment`, payload, undefined, options);
   }
 
-  async updateComment(postId: string, commentId: string, payload: Record<string, unknown>) {
-    return this.http.put(`/v1/post/${postId}/comment/${commentId}`, payload);
+  async updateComment(postId: string, commentId: string, payload: Record<string, unknown>, options: CallOptions = {}) {
+    return this.http.put(`/v1/post/${postId}/comment/${commentId}`, payload, options);
   }
 
-  async deleteComment(postId: string, commentId: string) {
-    return this.http.delete(`/v1/post/${postId}/comment/${commentId}`);
+  async deleteComment(postId: string, commentId: string, options: CallOptions = {}) {
+    return this.http.delete(`/v1/post/${postId}/comment/${commentId}`, options);
   }
 }
 
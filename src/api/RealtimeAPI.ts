@@ -1,40 +1,41 @@
 import { BaseAPI } from './BaseAPI.js';
+import type { CallOptions } from '../types/index.js';
 
 export class RealtimeAPI extends BaseAPI {
-  async getNotifications(limit = 20) {
-    return this.http.get('/v1/realtime/notification', { limit });
+  async getNotifications(limit = 20, options: CallOptions = {}) {
+    return this.http.get('/v1/realtime/notification', { limit }, options);
   }
 
-  async markNotificationRead(notificationId: string) {
-    return this.http.put(`/v1/realtime/notification/${notificationId}/read`);
+  async markNotificationRead(notificationId: string, options: CallOptions = {}) {
+    return this.http.put(`/v1/realtime/notification/${notificationId}/read`, undefined, options);
   }
 
-  async markAllNotificationsRead() {
-    return this.http.put('/v1/realtime/notification/read/all');
+  async markAllNotificationsRead(options: CallOptions = {}) {
+    return this.http.put('/v1/realtime/notification/read/all', undefined, options);
   }
 
-  async deleteNotification(notificationId: string) {
-    return this.http.delete(`/v1/realtime/notification/${notificationId}`);
+  async deleteNotification(notificationId: string, options: CallOptions = {}) {
+    return this.http.delete(`/v1/realtime/notification/${notificationId}`, options);
   }
 
-  async registerPushToken(token: string, device: string, platform: string) {
-    return this.http.post('/v1/realtime/push/token', { token, device, platform });
+  async registerPushToken(token: string, device: string, platform: string, options: CallOptions = {}) {
+    return this.http.post('/v1/realtime/push/token', { token, device, platform }, undefined, options);
   }
 
-  async unregisterPushToken(token: string) {
-    return this.http.post('/v1/realtime/push/token/remove', { token });
+  async unregisterPushToken(token: string, options: CallOptions = {}) {
+    return this.http.post('/v1/realtime/push/token/remove', { token }, undefined, options);
   }
 
-  async getViews(limit = 50) {
-    return this.http.get('/v1/realtime/views', { limit });
+  async getViews(limit = 50, options: CallOptions = {}) {
+    return this.http.get('/v1/realtime/views', { limit }, options);
   }
 
-  async resetViewStats() {
-    return this.http.post('/v1/realtime/views/reset');
+  async resetViewStats(options: CallOptions = {}) {
+    return this.http.post('/v1/realtime/views/reset', undefined, undefined, options);
   }
 
-  async getOnlineUsers() {
-    return this.http.get('/v1/realtime/online');
+  async getOnlineUsers(options: CallOptions = {}) {
+    return this.http.get('/v1/realtime/online', undefined, options);
   }
 }
 
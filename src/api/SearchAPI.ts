@@ -1,9 +1,9 @@
 import { BaseAPI } from './BaseAPI.js';
-import type { RequestParams } from '../types/index.js';
+import type { CallOptions, RequestParams } from '../types/index.js';
 
 export class SearchAPI extends BaseAPI {
-  async searchUsers(params: RequestParams = {}) {
-    const data = await this.http.get<unknown[] | { results?: unknown[] }>('/v1/search/user', params);
+  async searchUsers(params: RequestParams = {}, options: CallOptions = {}) {
+    const data = await this.http.get<unknown[] | { results?: unknown[] }>('/v1/search/user', params, options);
     if (Array.isArray(data)) {
       return data;
     }
@@ -13,17 +13,23 @@ export class SearchAPI extends BaseAPI {
     return [];
   }
 
-  async searchByLocation(params: RequestParams = {}) {
-    return this.http.get('/v1/search/location', params);
+  async searchByLocation(params: RequestParams = {}, options: CallOptions = {}) {
+    return this.http.get('/v1/search/location', params, options);
   }
 
-  async getFeed(feedType: 'global' | 'following' = 'global', limit = 20, offset = 0, extra = 'photos.user') {
+  async getFeed(
+    feedType: 'global' | 'following' = 'global',
+    limit = 20,
+    offset = 0,
+    extra = 'photos.user',
+    options: CallOptions = {},
+  ) {
     const data = await this.http.get<unknown[] | { feed?: unknown[] }>('/v1/feed', {
       type: feedType,
       limit,
       offset,
       extra,
-    });
+    }, options);
     if (Array.isArray(data)) {
       return data;
     }
@@ -33,12 +39,12 @@ export class SearchAPI extends BaseAPI {
     return [];
   }
 
-  async getNearbyUsers(limit = 50) {
-    return this.http.get('/v1/search/nearby', { limit });
+  async getNearbyUsers(limit = 50, options: CallOptions = {}) {
+    return this.http.get('/v1/search/nearby', { limit }, options);
   }
 
-  async getSuggestions(limit = 20) {
-    const data = await this.http.get<{ results?: unknown[] }>('/v1/search/suggestions', { limit });
+  async getSuggestions(limit = 20, options: CallOptions = {}) {
+    const data = await this.http.get<{ results?: unknown[] }>('/v1/search/suggestions', { limit }, options);
     return data?.results ?? [];
   }
 }
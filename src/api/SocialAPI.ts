@@ -1,47 +1,48 @@
 import { BaseAPI } from './BaseAPI.js';
+import type { CallOptions } from '../types/index.js';
 
 export class SocialAPI extends BaseAPI {
-  async getRelations(userId: string) {
-    return this.http.get(`/v1/social/relations/${userId}`);
+  async getRelations(userId: string, options: CallOptions = {}) {
+    return this.http.get(`/v1/social/relations/${userId}`, undefined, options);
   }
 
-  async getFriends(userId?: string) {
+  async getFriends(userId?: string, options: CallOptions = {}) {
     if (userId) {
-      return this.http.get(`/v1/social/friends/${userId}`);
+      return this.http.get(`/v1/social/friends/${userId}`, undefined, options);
     }
-    return this.http.get('/v1/social/friends');
+    return this.http.get('/v1/social/friends', undefined, options);
   }
 
-  async blockUser(userId: string) {
-    return this.http.post('/v1/social/block', { user_id: userId });
+  async blockUser(userId: string, options: CallOptions = {}) {
+    return this.http.post('/v1/social/block', { user_id: userId }, undefined, options);
   }
 
-  async unblockUser(userId: string) {
-    return this.http.post('/v1/social/unblock', { user_id: userId });
+  async unblockUser(userId: string, options: CallOptions = {}) {
+    return this.http.post('/v1/social/unblock', { user_id: userId }, undefined, options);
   }
 
-  async bookmarkUser(userId: string, note?: string) {
-    return this.http.post('/v1/social/bookmark', { user_id: userId, note });
+  async bookmarkUser(userId: string, note?: string, options: CallOptions = {}) {
+    return this.http.post('/v1/social/bookmark', { user_id: userId, note }, undefined, options);
   }
 
-  async removeBookmark(userId: string) {
-    return this.http.delete(`/v1/social/bookmark/${userId}`);
+  async removeBookmark(userId: string, options: CallOptions = {}) {
+    return this.http.delete(`/v1/social/bookmark/${userId}`, options);
   }
 
-  async getBookmarks() {
-    return this.http.get('/v1/social/bookmark');
+  async getBookmarks(options: CallOptions = {}) {
+    return this.http.get('/v1/social/bookmark', undefined, options);
   }
 
-  async likeContent(contentId: string, contentType: string) {
-    return this.http.post('/v1/social/like', { content_id: contentId, content_type: contentType });
+  async likeContent(contentId: string, contentType: string, options: CallOptions = {}) {
+    return this.http.post('/v1/social/like', { content_id: contentId, content_type: contentType }, undefined, options);
   }
 
-  async unlikeContent(contentId: string) {
-    return this.http.post('/v1/social/unlike', { content_id: contentId });
+  async unlikeContent(contentId: string, options: CallOptions = {}) {
+    return this.http.post('/v1/social/unlike', { content_id: contentId }, undefined, options);
   }
 
-  async getLikes(contentId: string) {
-    return this.http.get(`/v1/social/like/${contentId}`);
+  async getLikes(contentId: string, options: CallOptions = {}) {
+    return this.http.get(`/v1/social/like/${contentId}`, undefined, options);
   }
 }
 
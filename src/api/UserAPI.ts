@@ -2,11 +2,11 @@ import { BaseAPI } from './BaseAPI.js';
 import { User, type UserData } from '../models/User.js';
 import { Message, type MessageData } from '../models/Message.js';
 import { Thread, type ThreadData } from '../models/Thread.js';
-import type { RequestParams } from '../types/index.js';
+import type { CallOptions, RequestParams } from '../types/index.js';
 
 export class UserAPI extends BaseAPI {
-  async getSelf(): Promise<User> {
-    const data = await this.http.get<UserData>('/v1/account/self');
+  async getSelf(options: CallOptions = {}): Promise<User> {
+    const data = await this.http.get<UserData>('/v1/account/self', undefined, options);
     if (this.state?.createProfile) {
       return this.state.createProfile(data);
     }
@@ -16,8 +16,8 @@ export class UserAPI extends BaseAPI {
     return new User(this.client, data);
   }
 
-  async updateSelf(payload: Record<string, unknown>): Promise<User> {
-    const data = await this.http.put<UserData>('/v1/account/self', payload);
+  async updateSelf(payload: Record<string, unknown>, options: CallOptions = {}): Promise<User> {
+    const data = await this.http.put<UserData>('/v1/account/self', payload, options);
     if (this.state?.createProfile) {
       return this.state.createProfile(data);
     }
@@ -27,8 +27,8 @@ export class UserAPI extends BaseAPI {
     return new User(this.client, data);
   }
 
-  async getUser(userId: string): Promise<User> {
-    const data = await this.http.get<UserData>(`/v1/profile/${userId}`);
+  async getUser(userId: string, options: CallOptions = {}): Promise<User> {
+    const data = await this.http.get<UserData>(`/v1/profile/${userId}`, undefined, options);
     if (this.state?.createProfile) {
       return this.state.createProfile(data);
     }
@@ -38,8 +38,8 @@ export class UserAPI extends BaseAPI {
     return new User(this.client, data);
   }
 
-  async getThreads(): Promise<Thread[]> {
-    const data = await this.http.get<ThreadData[] | { threads?: ThreadData[] }>('/v1/thread');
+  async getThreads(options: CallOptions = {}): Promise<Thread[]> {
+    const data = await this.http.get<ThreadData[] | { threads?: ThreadData[] }>('/v1/thread', undefined, options);
     if (!this.client) {
       throw new Error('UserAPI requires a client instance');
     }
@@ -52,16 +52,21 @@ export class UserAPI extends BaseAPI {
     return [];
   }
 
-  async sendMessage(threadId: string, content: string): Promise<Message> {
-    const data = await this.http.post<MessageData>('/v1/message', { thread_id: threadId, message: content });
+  async sendMessage(threadId: string, content: string, options: CallOptions = {}): Promise<Message> {
+    const data = await this.http.post<MessageData>(
+      '/v1/message',
+      { thread_id: threadId, message: content },
+      undefined,
+      options,
+    );
     if (!this.client) {
       throw new Error('UserAPI requires a client instance');
     }
     return new Message(this.client, data);
   }
 
-  async searchUsers(params: RequestParams = {}) {
-    const data = await this.http.get<UserData[] | { results?: UserData[] }>('/v1/search/user', params);
+  async searchUsers(params: RequestParams = {}, options: CallOptions = {}) {
+    const data = await this.http.get<UserData[] | { results?: UserData[] }>('/v1/search/user', params, options);
     if (!this.client) {
       throw new Error('UserAPI requires a client instance');
     }
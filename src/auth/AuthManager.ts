@@ -1,100 +1,210 @@
-import axios, { type AxiosInstance } from 'axios';
-import type { LoginResult, SessionPayload } from '../types/index.js';
-import { API_BASE_URL, DEFAULT_USER_AGENT } from '../constants.js';
+import type { ChallengeHandler, LoginResult, SessionPayload } from '../types/index.js';
+import { DEFAULT_USER_AGENT } from '../constants.js';
 import {
   AuthenticationError,
+  LoginChallengeError,
   ValidationError,
 } from '../errors.js';
 import { randomUserAgent } from '../utils/randomUserAgent.js';
+import { createLogger, type Logger } from '../utils/logger.js';
+import { AxiosTransport } from '../http/AxiosTransport.js';
+import { isSuccessStatus, type Transport, type TransportHeaders, type TransportResponse } from '../http/Transport.js';
+import { CookieJar } from './CookieJar.js';
+import { challengeAnswerFields, parseLoginChallenge } from './challenges.js';
+
+export interface AuthManagerOptions {
+  /** Transport to send login and validation requests through. Defaults to an {@link AxiosTransport}. */
+  transport?: Transport;
+  /** Base URL for the default transport. Ignored when `transport` is given. */
+  apiBaseUrl?: string;
+  /** Receives login and validation logs. Credentials are redacted before they reach it. */
+  logger?: Logger;
+  /** Cookie jar to keep the session in. Defaults to a new, empty jar. */
+  cookieJar?: CookieJar;
+  /** Answers login challenges. Without one, a challenge fails the login with a `LoginChallengeError`. */
+  onChallenge?: ChallengeHandler;
+}
+
+export interface LoginOptions {
+  /** Overrides the manager's challenge handler for this login. */
+  onChallenge?: ChallengeHandler;
+}
+
+const SESSION_COOKIE = 'interpals_sessid';
+
+// Answers allowed before giving up, enough for a captcha followed by a second factor and a retry.
+const MAX_CHALLENGE_ROUNDS = 3;
+
+/** Whether the server accepts the session, or `unknown` if it could not be reached. */
+export type SessionStatus = 'valid' | 'invalid' | 'unknown';
 
 export class AuthManager {
-  private sessionCookie: string | null = null;
+  /** Cookies sent with every request, kept up to date from `Set-Cookie` responses. */
+  readonly cookies: CookieJar;
   private authToken: string | null = null;
   private botId: string | null = null;
   private readonly userAgent: string;
-  private readonly session: AxiosInstance;
+  private readonly transport: Transport;
+  private readonly logger: Logger;
+  private readonly onChallenge?: ChallengeHandler;
 
-  constructor(userAgent: string = DEFAULT_USER_AGENT) {
+  constructor(userAgent: string = DEFAULT_USER_AGENT, options: AuthManagerOptions = {}) {
     this.userAgent = userAgent;
-    this.session = axios.create({
-      baseURL: API_BASE_URL,
-      headers: {
-        'User-Agent': userAgent,
-      },
-    });
+    this.transport = options.transport ?? new AxiosTransport({ baseURL: options.apiBaseUrl });
+    this.logger = createLogger(options.logger);
+    this.cookies = options.cookieJar ?? new CookieJar();
+    this.onChallenge = options.onChallenge;
   }
 
-  async login(username: string, password: string): Promise<LoginResult> {
+  /**
+   * Logs in. If the server asks for verification, a second factor or a captcha, the challenge
+   * handler is asked for an answer and the login is retried with it.
+   * @throws {LoginChallengeError} If a challenge was not answered, or still not passed after
+   * several answers
+   */
+  async login(username: string, password: string, options: LoginOptions = {}): Promise<LoginResult> {
     if (!username || !password) {
       throw new ValidationError('Username and password are required');
     }
 
-    try {
-      const response = await this.session.post(
-        '/v1/token',
-        new URLSearchParams({
-          username,
-          password,
-        }),
-        {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'User-Agent': randomUserAgent({ base: this.userAgent }),
-          },
-          withCredentials: true,
-        },
-      );
-
-      const setCookie = response.headers['set-cookie'] ?? [];
-      const cookie = this.findCookie(Array.isArray(setCookie) ? setCookie : [setCookie], 'interpals_sessid');
+    const onChallenge = options.onChallenge ?? this.onChallenge;
+    let answerFields: Record<string, string> = {};
+    for (let round = 0; ; round += 1) {
+      const response = await this.requestToken(new URLSearchParams({ username, password, ...answerFields }), round > 0);
+      const challenge = parseLoginChallenge(response.data);
+      if (!challenge) {
+        return this.completeLogin(response, username);
+      }
 
-      if (!cookie) {
-        throw new AuthenticationError('Login successful but session cookie not found', { statusCode: 500 });
+      const errorOptions = { statusCode: response.status, response: response.data };
+      if (round >= MAX_CHALLENGE_ROUNDS) {
+        throw new LoginChallengeError(challenge, 'Login challenge was not passed', errorOptions);
       }
 
-      this.sessionCookie = cookie;
-      this.authToken = response.data?.auth_token ?? response.data?.token ?? null;
-      this.botId = this.extractBotId(response.data);
+      // Keep any cookie the server set to track the pending login.
+      this.cookies.applyResponseHeaders(response.headers);
+      this.logger.info('Login challenge', { type: challenge.type, round });
+      const answer = await onChallenge?.(challenge);
+      if (answer === null || answer === undefined) {
+        throw new LoginChallengeError(challenge, undefined, errorOptions);
+      }
+      // Earlier answers are resent in case the server checks every step again.
+      answerFields = { ...answerFields, ...challengeAnswerFields(challenge, answer) };
+    }
+  }
 
-      return {
-        sessionCookie: this.sessionCookie,
-        authToken: this.authToken,
-        botId: this.botId,
-        username,
-      };
+  private async requestToken(
+    form: URLSearchParams,
+    withCookies: boolean,
+  ): Promise<TransportResponse<Record<string, unknown> | undefined>> {
+    this.logger.debug('Logging in', { endpoint: '/v1/token', data: form });
+    const cookie = withCookies ? this.cookies.toHeader() : '';
+    try {
+      return await this.transport.request<Record<string, unknown>>({
+        method: 'POST',
+        url: '/v1/token',
+        data: form,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': randomUserAgent({ base: this.userAgent }),
+          ...(cookie && { Cookie: cookie }),
+        },
+      });
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        if (status === 401) {
-          throw new AuthenticationError('Invalid username or password', { statusCode: 401 });
-        }
-        if (status === 429) {
-          throw new AuthenticationError('Too many login attempts. Please try again later.', { statusCode: 429 });
-        }
+      this.logger.warn('Login request failed', { error });
+      throw new AuthenticationError(`Network error during login: ${(error as Error).message}`);
+    }
+  }
 
-        throw new AuthenticationError(
-          `Login failed with status ${status ?? 'unknown'}`,
-          { statusCode: status, response: error.response?.data },
-        );
+  private completeLogin(
+    response: TransportResponse<Record<string, unknown> | undefined>,
+    username: string,
+  ): LoginResult {
+    const { status } = response;
+    this.logger.debug('Login response', { status, headers: response.headers });
+    if (!isSuccessStatus(status)) {
+      if (status === 401) {
+        throw new AuthenticationError('Invalid username or password', { statusCode: 401 });
+      }
+      if (status === 429) {
+        throw new AuthenticationError('Too many login attempts. Please try again later.', { statusCode: 429 });
       }
 
-      throw new AuthenticationError(`Network error during login: ${(error as Error).message}`);
+      throw new AuthenticationError(
+        `Login failed with status ${status}`,
+        { statusCode: status, response: response.data },
+      );
     }
+
+    this.cookies.applyResponseHeaders(response.headers);
+    const cookie = this.cookies.get(SESSION_COOKIE);
+
+    if (!cookie) {
+      throw new AuthenticationError('Login successful but session cookie not found', { statusCode: 500 });
+    }
+
+    this.authToken = (response.data?.auth_token ?? response.data?.token ?? null) as string | null;
+    this.botId = this.extractBotId(response.data);
+
+    return {
+      sessionCookie: cookie,
+      authToken: this.authToken,
+      botId: this.botId,
+      cookies: this.cookies.toJSON(),
+      sessionExpiresAt: this.sessionExpiresAt?.toISOString(),
+      username,
+    };
+  }
+
+  /**
+   * Applies `Set-Cookie` headers from any API response to the cookie jar.
+   * @returns The names of the cookies that changed
+   */
+  updateFromResponse(headers: TransportHeaders): string[] {
+    const changed = this.cookies.applyResponseHeaders(headers);
+    if (changed.length > 0) {
+      this.logger.debug('Cookies updated', { cookies: changed });
+    }
+    return changed;
   }
 
-  importSession(sessionCookie: string, authToken?: string | null, botId?: string | null): void {
+  /**
+   * Restores a session. `sessionCookie` may be the bare `interpals_sessid` value or a full
+   * cookie string, in which case every cookie in it is kept.
+   * @param cookies Other cookies saved with the session
+   * @param sessionExpiresAt When the server said the session cookie expires
+   */
+  importSession(
+    sessionCookie: string,
+    authToken?: string | null,
+    botId?: string | null,
+    cookies?: Record<string, string>,
+    sessionExpiresAt?: string,
+  ): void {
     if (!sessionCookie) {
       throw new ValidationError('Session cookie cannot be empty');
     }
 
-    if (sessionCookie.includes('interpals_sessid=')) {
-      const extracted = this.extractFromCookieString(sessionCookie, 'interpals_sessid');
-      if (!extracted) {
+    this.cookies.clear();
+    for (const [name, value] of Object.entries(cookies ?? {})) {
+      this.cookies.set(name, value);
+    }
+
+    if (sessionCookie.includes(`${SESSION_COOKIE}=`)) {
+      const parsed = this.parseCookieString(sessionCookie);
+      if (!parsed[SESSION_COOKIE]) {
         throw new ValidationError('Could not extract interpals_sessid from cookie string');
       }
-      this.sessionCookie = extracted;
+      for (const [name, value] of Object.entries(parsed)) {
+        this.cookies.set(name, value);
+      }
     } else {
-      this.sessionCookie = sessionCookie;
+      this.cookies.set(SESSION_COOKIE, sessionCookie);
+    }
+
+    const expiresAt = sessionExpiresAt ? Date.parse(sessionExpiresAt) : NaN;
+    if (!Number.isNaN(expiresAt)) {
+      this.cookies.set(SESSION_COOKIE, this.cookies.get(SESSION_COOKIE)!, expiresAt);
     }
 
     this.authToken = authToken ?? null;
@@ -103,25 +213,42 @@ export class AuthManager {
 
   exportSession(): SessionPayload {
     return {
-      sessionCookie: this.sessionCookie ?? '',
+      sessionCookie: this.cookies.get(SESSION_COOKIE) ?? '',
       authToken: this.authToken,
       botId: this.botId,
+      cookies: this.cookies.toJSON(),
+      sessionExpiresAt: this.sessionExpiresAt?.toISOString(),
     };
   }
 
   async validateSession(): Promise<boolean> {
-    if (!this.sessionCookie) {
+    return (await this.checkSession()) === 'valid';
+  }
+
+  /**
+   * Asks the server whether the session is still accepted. Unlike {@link validateSession}, a
+   * request that gets no answer is reported as `unknown` rather than invalid.
+   */
+  async checkSession(): Promise<SessionStatus> {
+    if (!this.isAuthenticated) {
       throw new AuthenticationError('No session cookie set');
     }
 
+    let response: TransportResponse;
     try {
-      const response = await this.session.get('/v1/account/self', {
+      response = await this.transport.request({
+        method: 'GET',
+        url: '/v1/account/self',
         headers: this.getHeaders(),
       });
-      return response.status === 200;
-    } catch {
-      return false;
+    } catch (error) {
+      this.logger.debug('Session check failed', { error });
+      return 'unknown';
     }
+
+    this.updateFromResponse(response.headers);
+    if (response.status === 200) return 'valid';
+    return response.status === 401 || response.status === 403 ? 'invalid' : 'unknown';
   }
 
   getHeaders(): Record<string, string> {
@@ -129,8 +256,9 @@ export class AuthManager {
       'User-Agent': this.userAgent,
     };
 
-    if (this.sessionCookie) {
-      headers.Cookie = `interpals_sessid=${this.sessionCookie}`;
+    const cookie = this.cookies.toHeader();
+    if (cookie) {
+      headers.Cookie = cookie;
     }
 
     if (this.authToken) {
@@ -140,14 +268,49 @@ export class AuthManager {
     return headers;
   }
 
+  /**
+   * Ends the session on the server, then forgets it locally even if the server could not be reached.
+   * @returns Whether the server confirmed the session is no longer valid
+   */
+  async logout(): Promise<boolean> {
+    if (!this.isAuthenticated) {
+      this.clearSession();
+      return false;
+    }
+
+    let confirmed = false;
+    try {
+      const response = await this.transport.request({
+        method: 'DELETE',
+        url: '/v1/token',
+        headers: this.getHeaders(),
+      });
+      // A 401 means the server had already dropped the session.
+      confirmed = isSuccessStatus(response.status) || response.status === 401;
+      if (!confirmed) {
+        this.logger.warn('Server did not confirm logout', { status: response.status });
+      }
+    } catch (error) {
+      this.logger.warn('Logout request failed', { error });
+    }
+
+    this.clearSession();
+    return confirmed;
+  }
+
   clearSession(): void {
-    this.sessionCookie = null;
+    this.cookies.clear();
     this.authToken = null;
     this.botId = null;
   }
 
   get isAuthenticated(): boolean {
-    return Boolean(this.sessionCookie);
+    return this.cookies.has(SESSION_COOKIE);
+  }
+
+  /** When the session cookie expires, if the server gave it an expiry. */
+  get sessionExpiresAt(): Date | undefined {
+    return this.cookies.getExpiry(SESSION_COOKIE);
   }
 
   get botIdentifier(): string | null {
@@ -158,24 +321,17 @@ export class AuthManager {
     return this.userAgent;
   }
 
-  private extractFromCookieString(cookieString: string, cookieName: string): string | null {
-    return (
+  private parseCookieString(cookieString: string): Record<string, string> {
+    return Object.fromEntries(
       cookieString
         .split(';')
         .map((entry) => entry.trim())
         .map((entry) => entry.split('='))
-        .find(([name]) => name === cookieName)?.[1] ?? null
+        .filter(([name, value]) => name && value)
+        .map(([name, value]) => [name, value]),
     );
   }
 
-  private findCookie(cookies: string[], name: string): string | null {
-    for (const cookie of cookies) {
-      const value = this.extractFromCookieString(cookie, name);
-      if (value) return value;
-    }
-    return null;
-  }
-
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private extractBotId(payload: any): string | null {
     if (!payload || typeof payload !== 'object') {
@@ -0,0 +1,142 @@
+import type { TransportHeaders } from '../http/Transport.js';
+
+export interface StoredCookie {
+  name: string;
+  value: string;
+  /** Epoch milliseconds after which the cookie is dropped. */
+  expiresAt?: number;
+}
+
+/**
+ * Holds the cookies sent with every API request and keeps them in step with `Set-Cookie`
+ * headers from the server. The jar is shared by {@link AuthManager} and {@link HttpClient}.
+ */
+export class CookieJar {
+  private readonly cookies = new Map<string, StoredCookie>();
+
+  get(name: string): string | undefined {
+    const cookie = this.cookies.get(name);
+    if (!cookie) return undefined;
+    if (this.isExpired(cookie)) {
+      this.cookies.delete(name);
+      return undefined;
+    }
+    return cookie.value;
+  }
+
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  /**
+   * Returns when a cookie expires, or `undefined` if it has no expiry or is not in the jar.
+   */
+  getExpiry(name: string): Date | undefined {
+    const expiresAt = this.has(name) ? this.cookies.get(name)?.expiresAt : undefined;
+    return expiresAt === undefined ? undefined : new Date(expiresAt);
+  }
+
+  set(name: string, value: string, expiresAt?: number): void {
+    this.cookies.set(name, { name, value, expiresAt });
+  }
+
+  delete(name: string): void {
+    this.cookies.delete(name);
+  }
+
+  clear(): void {
+    this.cookies.clear();
+  }
+
+  /**
+   * Applies a single `Set-Cookie` header value.
+   * @returns Whether the jar changed
+   */
+  setCookie(header: string): boolean {
+    const [pair, ...attributes] = header.split(';').map((part) => part.trim());
+    const separator = pair?.indexOf('=') ?? -1;
+    if (!pair || separator <= 0) return false;
+
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    let expiresAt: number | undefined;
+
+    for (const attribute of attributes) {
+      const [key, ...rest] = attribute.split('=');
+      const attributeValue = rest.join('=').trim();
+      switch (key.trim().toLowerCase()) {
+        case 'max-age': {
+          const seconds = Number(attributeValue);
+          if (Number.isFinite(seconds)) expiresAt = Date.now() + seconds * 1000;
+          break;
+        }
+        case 'expires': {
+          // Max-Age wins over Expires when both are present.
+          const date = Date.parse(attributeValue);
+          if (expiresAt === undefined && !Number.isNaN(date)) expiresAt = date;
+          break;
+        }
+        default:
+          break;
+      }
+    }
+
+    const existing = this.cookies.get(name);
+    if (value === '' || (expiresAt !== undefined && expiresAt <= Date.now())) {
+      return this.cookies.delete(name);
+    }
+    if (existing?.value === value && existing.expiresAt === expiresAt) {
+      return false;
+    }
+
+    this.set(name, value, expiresAt);
+    return true;
+  }
+
+  /**
+   * Applies every `Set-Cookie` header on a response.
+   * @returns The names of the cookies that changed
+   */
+  applyResponseHeaders(headers: TransportHeaders): string[] {
+    const raw = headers['set-cookie'];
+    if (!raw) return [];
+
+    const changed: string[] = [];
+    for (const header of Array.isArray(raw) ? raw : [raw]) {
+      const name = header.split('=')[0]?.trim();
+      if (this.setCookie(header) && name) changed.push(name);
+    }
+    return changed;
+  }
+
+  /**
+   * Builds the `Cookie` request header, or an empty string when the jar is empty.
+   */
+  toHeader(): string {
+    return this.list()
+      .map(({ name, value }) => `${name}=${value}`)
+      .join('; ');
+  }
+
+  /**
+   * Returns every cookie that has not expired.
+   */
+  list(): StoredCookie[] {
+    return Array.from(this.cookies.values()).filter((cookie) => {
+      if (!this.isExpired(cookie)) return true;
+      this.cookies.delete(cookie.name);
+      return false;
+    });
+  }
+
+  /**
+   * Returns the jar's contents as a plain object, for persisting.
+   */
+  toJSON(): Record<string, string> {
+    return Object.fromEntries(this.list().map(({ name, value }) => [name, value]));
+  }
+
+  private isExpired(cookie: StoredCookie): boolean {
+    return cookie.expiresAt !== undefined && cookie.expiresAt <= Date.now();
+  }
+}
@@ -0,0 +1,64 @@
+import { parseErrorBody } from '../http/middleware.js';
+import type { ChallengeAnswer, LoginChallenge, LoginChallengeType } from '../types/index.js';
+
+/** Error codes and challenge names the server uses, mapped onto challenge types. */
+const CHALLENGE_TYPES: Record<string, LoginChallengeType> = {
+  two_factor: 'two_factor',
+  two_factor_required: 'two_factor',
+  '2fa_required': 'two_factor',
+  otp_required: 'two_factor',
+  email_verification: 'email_verification',
+  email_verification_required: 'email_verification',
+  email_not_verified: 'email_verification',
+  verify_email: 'email_verification',
+  captcha: 'captcha',
+  captcha_required: 'captcha',
+};
+
+// Body fields that describe the error rather than the challenge.
+const ENVELOPE_KEYS = new Set(['challenge', 'challenge_token', 'code', 'error', 'error_code', 'message', 'type', 'token']);
+
+const omit = (record: Record<string, unknown>, keys: Set<string>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(record).filter(([key]) => !keys.has(key)));
+
+/**
+ * Recognises a login response that asks for a challenge, either as a `challenge` field
+ * (a type name or an object with `type`) or as a known error code.
+ * @returns The challenge, or `null` if the response is not one
+ */
+export const parseLoginChallenge = (body: unknown): LoginChallenge | null => {
+  if (!body || typeof body !== 'object') return null;
+
+  const record = body as Record<string, unknown>;
+  const { code, message } = parseErrorBody(body);
+  const token = typeof record.challenge_token === 'string' ? record.challenge_token : undefined;
+
+  if (record.challenge && typeof record.challenge === 'object') {
+    const challenge = record.challenge as Record<string, unknown>;
+    const type = String(challenge.type ?? code ?? 'unknown');
+    return {
+      type: CHALLENGE_TYPES[type] ?? type,
+      params: omit(challenge, ENVELOPE_KEYS),
+      token: typeof challenge.token === 'string' ? challenge.token : token,
+      message: typeof challenge.message === 'string' ? challenge.message : message,
+    };
+  }
+
+  const name = typeof record.challenge === 'string' ? record.challenge : code;
+  const type = name ? CHALLENGE_TYPES[name.toLowerCase()] ?? (record.challenge ? name : undefined) : undefined;
+  if (!type) return null;
+
+  return { type, params: omit(record, ENVELOPE_KEYS), token, message };
+};
+
+/**
+ * Builds the extra login form fields that answer `challenge`. A string answer is sent as
+ * `captcha_response` for captchas and `verification_code` otherwise.
+ */
+export const challengeAnswerFields = (challenge: LoginChallenge, answer: ChallengeAnswer): Record<string, string> => ({
+  challenge_type: challenge.type,
+  ...(challenge.token && { challenge_token: challenge.token }),
+  ...(typeof answer === 'string'
+    ? { [challenge.type === 'captcha' ? 'captcha_response' : 'verification_code']: answer }
+    : answer),
+});
@@ -0,0 +1,188 @@
+import { promises as fs } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import { DEFAULT_PASSWORD_ENV_VAR, DEFAULT_USERNAME_ENV_VAR } from '../constants.js';
+import { CredentialsError } from '../errors.js';
+import type { CredentialCallback, Credentials } from '../types/index.js';
+
+/**
+ * Somewhere to read login credentials from when they are needed.
+ */
+export interface CredentialProvider {
+  /** Identifies the provider in error messages. */
+  readonly name: string;
+  /**
+   * Returns the credentials, or `null` if this provider has none so a chain can try the next one.
+   * @throws {CredentialsError} If the provider is set up but its credentials cannot be read
+   */
+  getCredentials(): Promise<Credentials | null>;
+}
+
+/** Anything the `credentials` client option accepts. An array is tried in order, as a chain. */
+export type CredentialSource = CredentialProvider | CredentialCallback | CredentialSource[];
+
+export interface CredentialKeys {
+  /** Variable or key holding the username. Defaults to `INTERPALS_USERNAME`. */
+  usernameKey?: string;
+  /** Variable or key holding the password. Defaults to `INTERPALS_PASSWORD`. */
+  passwordKey?: string;
+}
+
+/**
+ * Builds credentials from a username and password that must be both present or both absent.
+ */
+const pairCredentials = (
+  provider: string,
+  username: string | undefined,
+  password: string | undefined,
+  keys: Required<CredentialKeys>,
+): Credentials | null => {
+  if (!username && !password) return null;
+  if (!username || !password) {
+    const missing = username ? keys.passwordKey : keys.usernameKey;
+    throw new CredentialsError(provider, `${missing} is missing`);
+  }
+  return { username, password };
+};
+
+const resolveKeys = (keys: CredentialKeys): Required<CredentialKeys> => ({
+  usernameKey: keys.usernameKey ?? DEFAULT_USERNAME_ENV_VAR,
+  passwordKey: keys.passwordKey ?? DEFAULT_PASSWORD_ENV_VAR,
+});
+
+/**
+ * Reads credentials from environment variables, `INTERPALS_USERNAME` and `INTERPALS_PASSWORD`
+ * by default. The variables are read on every call, so rotated secrets are picked up.
+ */
+export class EnvCredentialProvider implements CredentialProvider {
+  readonly name: string;
+  private readonly keys: Required<CredentialKeys>;
+
+  constructor(keys: CredentialKeys = {}) {
+    this.keys = resolveKeys(keys);
+    this.name = `env (${this.keys.usernameKey}, ${this.keys.passwordKey})`;
+  }
+
+  async getCredentials(): Promise<Credentials | null> {
+    return pairCredentials(this.name, process.env[this.keys.usernameKey], process.env[this.keys.passwordKey], this.keys);
+  }
+}
+
+/**
+ * Reads credentials from a JSON file or a `.env` file. JSON files may hold `username` and
+ * `password` or the same keys as a `.env` file. A missing file has no credentials.
+ */
+export class FileCredentialProvider implements CredentialProvider {
+  readonly name: string;
+  readonly file: string;
+  private readonly keys: Required<CredentialKeys>;
+
+  constructor(file: string, keys: CredentialKeys = {}) {
+    this.file = resolve(file);
+    this.keys = resolveKeys(keys);
+    this.name = `file (${this.file})`;
+  }
+
+  async getCredentials(): Promise<Credentials | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw new CredentialsError(this.name, 'could not be read', { cause: error });
+    }
+
+    const values = extname(this.file) === '.json' ? this.parseJson(raw) : parseDotEnv(raw);
+    return pairCredentials(
+      this.name,
+      values.username ?? values[this.keys.usernameKey],
+      values.password ?? values[this.keys.passwordKey],
+      this.keys,
+    );
+  }
+
+  private parseJson(raw: string): Record<string, string | undefined> {
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (!parsed || typeof parsed !== 'object') throw new TypeError('Expected an object');
+      return parsed as Record<string, string | undefined>;
+    } catch (error) {
+      throw new CredentialsError(this.name, 'is not a valid JSON object', { cause: error });
+    }
+  }
+}
+
+/**
+ * Parses `KEY=value` lines, ignoring blank lines, comments and a leading `export`, and
+ * unquoting quoted values.
+ */
+export const parseDotEnv = (raw: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (const line of raw.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match || line.trimStart().startsWith('#')) continue;
+
+    const [, key, value] = match;
+    const quoted = /^(['"])(.*)\1$/.exec(value);
+    values[key] = quoted ? quoted[2] : value.replace(/\s+#.*$/, '');
+  }
+  return values;
+};
+
+/**
+ * Calls a function for credentials. Errors it throws are reported under this provider's name.
+ */
+export class CallbackCredentialProvider implements CredentialProvider {
+  readonly name: string;
+  private readonly callback: CredentialCallback;
+
+  constructor(callback: CredentialCallback, name = 'callback') {
+    this.callback = callback;
+    this.name = name;
+  }
+
+  async getCredentials(): Promise<Credentials | null> {
+    let credentials: Credentials | null | undefined;
+    try {
+      credentials = await this.callback();
+    } catch (error) {
+      throw new CredentialsError(this.name, `failed: ${(error as Error).message}`, { cause: error });
+    }
+    if (!credentials) return null;
+    return pairCredentials(this.name, credentials.username, credentials.password, {
+      usernameKey: 'username',
+      passwordKey: 'password',
+    });
+  }
+}
+
+/**
+ * Tries each provider in turn and returns the first credentials found. A provider that fails
+ * stops the chain, so a broken configuration is not silently skipped.
+ */
+export class ChainCredentialProvider implements CredentialProvider {
+  readonly name: string;
+  readonly providers: CredentialProvider[];
+
+  constructor(providers: CredentialProvider[]) {
+    this.providers = providers;
+    this.name = `chain [${providers.map((provider) => provider.name).join(', ')}]`;
+  }
+
+  async getCredentials(): Promise<Credentials | null> {
+    for (const provider of this.providers) {
+      const credentials = await provider.getCredentials();
+      if (credentials) return credentials;
+    }
+    return null;
+  }
+}
+
+/**
+ * Turns anything the `credentials` option accepts into a provider.
+ */
+export const toCredentialProvider = (source: CredentialSource): CredentialProvider => {
+  if (Array.isArray(source)) {
+    return new ChainCredentialProvider(source.map(toCredentialProvider));
+  }
+  return typeof source === 'function' ? new CallbackCredentialProvider(source) : source;
+};
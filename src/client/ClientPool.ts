@@ -0,0 +1,266 @@
+import { EventEmitter } from 'node:events';
+import { join } from 'node:path';
+import { InterpalClient } from './InterpalClient.js';
+import { AuthenticationError, ValidationError } from '../errors.js';
+import type { RateLimitBucket, RateLimitBucketName } from '../http/RateLimitBucket.js';
+import { FileOutboxStore } from '../outbox/OutboxStore.js';
+import type { InterpalClientOptions, SessionPayload } from '../types/index.js';
+import { createLogger, type Logger } from '../utils/logger.js';
+
+export type AccountStatus = 'idle' | 'starting' | 'running' | 'stopped' | 'failed';
+
+export interface PoolAccount extends InterpalClientOptions {
+  /** Identifies the account in pool events and lookups. */
+  id: string;
+}
+
+export interface ClientPoolOptions {
+  accounts?: PoolAccount[];
+  /** Options applied to every account. Each account's own options take precedence. */
+  defaults?: InterpalClientOptions;
+  /**
+   * `isolated` (default) gives each account its own rate-limit buckets. `shared` makes all accounts
+   * draw from one set, for when the limit applies to the connection rather than the account.
+   */
+  rateLimiting?: 'shared' | 'isolated';
+  /**
+   * Directory for per-account session and outbox files, named after the account id. Used when an
+   * account persists its session or enables the outbox without choosing a file. Defaults to the
+   * working directory.
+   */
+  dataDirectory?: string;
+  /** Connect each account to the gateway when it starts. Defaults to `true`. */
+  connect?: boolean;
+  logger?: Logger;
+}
+
+interface PoolMember {
+  client: PooledClient;
+  status: AccountStatus;
+  starting?: Promise<void>;
+}
+
+/**
+ * A client that also reports every event it emits to its pool.
+ * @private
+ */
+class PooledClient extends InterpalClient {
+  private readonly forward: (event: string | symbol, args: unknown[]) => void;
+
+  constructor(options: InterpalClientOptions, forward: (event: string | symbol, args: unknown[]) => void) {
+    super(options);
+    this.forward = forward;
+  }
+
+  override emit(event: string | symbol, ...args: unknown[]): boolean {
+    // The pool handles errors nobody listens for on the client itself.
+    const handled = event === 'error' && this.listenerCount('error') === 0 ? false : super.emit(event, ...args);
+    this.forward?.(event, args);
+    return handled;
+  }
+}
+
+/**
+ * Runs several accounts from one process, each with its own session, socket and client.
+ *
+ * Every event an account's client emits is re-emitted on the pool with the account id appended
+ * as the last argument, e.g. `pool.on('messageCreate', (message, accountId) => ...)`. The pool
+ * also emits `accountStarted(accountId)`, `accountStopped(accountId)` and
+ * `accountFailed(error, accountId)`.
+ */
+export class ClientPool extends EventEmitter {
+  private readonly members = new Map<string, PoolMember>();
+  private readonly defaults: InterpalClientOptions;
+  private readonly sharedBuckets?: Map<RateLimitBucketName, RateLimitBucket>;
+  private readonly dataDirectory: string;
+  private readonly connectOnStart: boolean;
+  private readonly logger: Logger;
+
+  constructor(options: ClientPoolOptions = {}) {
+    super();
+    this.defaults = options.defaults ?? {};
+    this.sharedBuckets = options.rateLimiting === 'shared' ? new Map() : undefined;
+    this.dataDirectory = options.dataDirectory ?? '.';
+    this.connectOnStart = options.connect ?? true;
+    this.logger = createLogger(options.logger);
+
+    for (const account of options.accounts ?? []) {
+      this.add(account);
+    }
+  }
+
+  /** Ids of every account in the pool. */
+  get ids(): string[] {
+    return [...this.members.keys()];
+  }
+
+  get size(): number {
+    return this.members.size;
+  }
+
+  /**
+   * Adds an account without starting it.
+   * @returns The account's client
+   * @throws {ValidationError} If an account with the same id is already in the pool
+   */
+  add(account: PoolAccount): InterpalClient {
+    if (this.members.has(account.id)) {
+      throw new ValidationError(`Account ${account.id} is already in the pool`);
+    }
+
+    const options = this.resolveOptions(account);
+    const client = new PooledClient(options, (event, args) => this.forward(account.id, event, args));
+    this.members.set(account.id, { client, status: 'idle' });
+    return client;
+  }
+
+  /**
+   * Stops an account and removes it from the pool.
+   */
+  async remove(id: string): Promise<void> {
+    const member = this.members.get(id);
+    if (!member) return;
+
+    await this.stop(id);
+    this.members.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.members.has(id);
+  }
+
+  /**
+   * Returns an account's client.
+   * @throws {ValidationError} If the account is not in the pool
+   */
+  get(id: string): InterpalClient {
+    return this.member(id).client;
+  }
+
+  status(id: string): AccountStatus {
+    return this.member(id).status;
+  }
+
+  /**
+   * Restores or logs in an account's session and, unless disabled, connects it to the gateway.
+   * Starting an account that is already running or starting waits for that instead.
+   */
+  async start(id: string): Promise<void> {
+    const member = this.member(id);
+    if (member.status === 'running') return;
+    if (member.starting) return member.starting;
+
+    member.status = 'starting';
+    member.starting = (async () => {
+      try {
+        await member.client.initialize();
+        if (!member.client.isAuthenticated) {
+          throw new AuthenticationError(`Account ${id} has no session and could not log in`);
+        }
+        if (this.connectOnStart) {
+          await member.client.connect();
+        }
+        member.status = 'running';
+        this.emit('accountStarted', id);
+      } catch (error) {
+        member.status = 'failed';
+        this.logger.warn('Account failed to start', { accountId: id, error });
+        this.emit('accountFailed', error, id);
+        throw error;
+      } finally {
+        member.starting = undefined;
+      }
+    })();
+    return member.starting;
+  }
+
+  /**
+   * Starts every account that is not already running. One account failing does not stop the rest.
+   * @returns The errors of the accounts that failed, by id
+   */
+  async startAll(): Promise<Map<string, unknown>> {
+    const failures = new Map<string, unknown>();
+    await Promise.all(
+      this.ids.map((id) => this.start(id).catch((error: unknown) => {
+        failures.set(id, error);
+      })),
+    );
+    return failures;
+  }
+
+  /**
+   * Disconnects an account from the gateway and stops its background session checks, outbox
+   * retries and gateway reconnects, also for an account that failed to start. Its session and pending messages are kept, so it can be started again.
+   */
+  async stop(id: string): Promise<void> {
+    const member = this.member(id);
+    await member.starting?.catch(() => {});
+    // All three run from `initialize()` or `connect()` on, so an account that failed to start may
+    // have them too, including gateway reconnects scheduled after its first connection failed.
+    member.client.sessionMonitor?.stop();
+    member.client.outbox?.close();
+    await member.client.disconnect();
+    if (member.status !== 'running') return;
+
+    member.status = 'stopped';
+    this.emit('accountStopped', id);
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all(this.ids.map((id) => this.stop(id)));
+  }
+
+  /**
+   * Logs an account in again with its credentials, and reconnects it to the gateway if it was
+   * connected so the socket uses the new session.
+   */
+  async reauthenticate(id: string): Promise<SessionPayload> {
+    const member = this.member(id);
+    const session = await member.client.login();
+
+    if (member.client.isConnected) {
+      await member.client.disconnect();
+      await member.client.connect();
+    }
+    return session;
+  }
+
+  private member(id: string): PoolMember {
+    const member = this.members.get(id);
+    if (!member) {
+      throw new ValidationError(`Account ${id} is not in the pool`);
+    }
+    return member;
+  }
+
+  private resolveOptions(account: PoolAccount): InterpalClientOptions {
+    const { id, ...own } = account;
+    const options: InterpalClientOptions = {
+      autoLogin: true,
+      ...this.defaults,
+      ...own,
+      logger: own.logger ?? this.logger.child({ accountId: id }),
+      rateLimitBuckets: own.rateLimitBuckets ?? this.sharedBuckets,
+    };
+
+    // Accounts must not share session or outbox files.
+    if (options.persistSession && !options.sessionStore && !own.sessionFile) {
+      options.sessionFile = join(this.dataDirectory, `.interpals_session.${id}.json`);
+    }
+    if (options.outbox === true || (options.outbox && !options.outbox.store)) {
+      options.outbox = {
+        ...(options.outbox === true ? {} : options.outbox),
+        store: new FileOutboxStore(join(this.dataDirectory, `.interpals_outbox.${id}.json`)),
+      };
+    }
+    return options;
+  }
+
+  private forward(accountId: string, event: string | symbol, args: unknown[]): void {
+    if (event === 'error' && this.listenerCount('error') === 0) {
+      this.logger.error('Account error', { accountId, error: args[0] });
+      return;
+    }
+    super.emit(event, ...args, accountId);
+  }
+}
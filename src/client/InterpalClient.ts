@@ -1,6 +1,7 @@
 import { EventEmitter } from 'node:events';
-import { AuthManager } from '../auth/AuthManager.js';
+import { AuthManager, type LoginOptions } from '../auth/AuthManager.js';
 import { SessionManager } from '../session/SessionManager.js';
+import { SessionMonitor, type SessionExpiredEvent } from '../session/SessionMonitor.js';
 import { HttpClient } from '../http/HttpClient.js';
 import { InterpalState } from '../state/InterpalState.js';
 import { WebSocketClient } from '../websocket/WebSocketClient.js';
@@ -8,9 +9,18 @@ import { UserManager } from '../managers/UserManager.js';
 import { MessageManager } from '../managers/MessageManager.js';
 import { ThreadManager } from '../managers/ThreadManager.js';
 import { NotificationManager } from '../managers/NotificationManager.js';
-import type { InterpalClientOptions, SessionPayload } from '../types/index.js';
+import type { Credentials, InterpalClientOptions, SessionPayload } from '../types/index.js';
 import { DEFAULT_USER_AGENT } from '../constants.js';
 import { Intents } from '../util/Intents.js';
+import { createLogger, type Logger } from '../utils/logger.js';
+import { resolveEndpoints, type ResolvedEndpoints } from '../utils/endpoints.js';
+import { AxiosTransport } from '../http/AxiosTransport.js';
+import { RecordingTransport } from '../http/RecordingTransport.js';
+import { ReplayTransport } from '../http/ReplayTransport.js';
+import type { Transport } from '../http/Transport.js';
+import { MessageOutbox } from '../outbox/MessageOutbox.js';
+import { AuthenticationError, CredentialsError, ValidationError } from '../errors.js';
+import { toCredentialProvider, type CredentialProvider } from '../auth/credentials.js';
 
 // Legacy API imports for backward compatibility
 import { SearchAPI } from '../api/SearchAPI.js';
@@ -25,7 +35,7 @@ import { PostsAPI } from '../api/PostsAPI.js';
  */
 export class InterpalClient extends EventEmitter {
   protected readonly auth: AuthManager;
-  protected readonly http: HttpClient;
+  readonly http: HttpClient;
   protected readonly state: InterpalState;
   protected readonly sessionManager?: SessionManager;
   protected wsClient?: WebSocketClient;
@@ -43,10 +53,22 @@ export class InterpalClient extends EventEmitter {
   readonly realtime: RealtimeAPI;
   readonly posts: PostsAPI;
 
+  /** The API and gateway endpoints this client talks to. */
+  readonly endpoints: ResolvedEndpoints;
+
+  /** Pending message sends, when the outbox is enabled. */
+  readonly outbox?: MessageOutbox;
+
+  /** Background session checks, unless disabled with `sessionMonitor: false`. */
+  readonly sessionMonitor?: SessionMonitor;
+
   private readonly options: InterpalClientOptions;
-  private readonly username?: string;
-  private readonly password?: string;
+  private username?: string;
+  private password?: string;
+  private readonly credentialProvider?: CredentialProvider;
   private readonly intents: number;
+  private readonly logger: Logger;
+  private refreshing: Promise<boolean> | null = null;
 
   constructor(options: InterpalClientOptions = {}) {
     super();
@@ -54,6 +76,7 @@ export class InterpalClient extends EventEmitter {
     this.options = options;
     this.username = options.username;
     this.password = options.password;
+    this.credentialProvider = options.credentials ? toCredentialProvider(options.credentials) : undefined;
 
     // Resolve intents
     if (options.intents !== undefined) {
@@ -62,7 +85,18 @@ export class InterpalClient extends EventEmitter {
       this.intents = Intents.DEFAULT;
     }
 
-    this.auth = new AuthManager(options.userAgent ?? DEFAULT_USER_AGENT);
+    this.endpoints = resolveEndpoints(options);
+    const transport = this.createTransport(options);
+
+    this.logger = createLogger(options.logger);
+    this.auth = new AuthManager(options.userAgent ?? DEFAULT_USER_AGENT, {
+      transport,
+      logger: this.logger.child({ component: 'auth' }),
+      onChallenge: (challenge) => {
+        this.emit('loginChallenge', challenge);
+        return options.onChallenge?.(challenge);
+      },
+    });
     this.state = new InterpalState({
       maxMessages: options.maxMessages,
       cacheUsers: options.cacheUsers,
@@ -70,23 +104,69 @@ export class InterpalClient extends EventEmitter {
       weakReferences: options.weakReferences,
     });
 
-    this.http = new HttpClient(this.auth);
+    this.http = new HttpClient(this.auth, {
+      transport,
+      middleware: options.middleware,
+      buckets: options.rateLimitBuckets,
+      cache: options.responseCache,
+      logger: this.logger.child({ component: 'http' }),
+      refreshSession: options.autoReauthenticate === false
+        ? undefined
+        : () => {
+            this.emit('sessionExpired', { reason: 'rejected' } satisfies SessionExpiredEvent);
+            return this.refreshSession();
+          },
+    });
+    this.http.on('rateLimited', (info) => this.emit('rateLimited', info));
+    this.http.on('sessionUpdated', (session: SessionPayload, cookies: string[]) => {
+      void this.handleSessionUpdate(session, cookies);
+    });
     this.state.setHttpClient(this.http);
     this.state.setClient(this);
 
-    if (options.persistSession) {
+    if (options.persistSession || options.sessionStore) {
       this.sessionManager = new SessionManager(
-        options.sessionFile,
+        options.sessionStore ?? options.sessionFile,
         options.sessionExpirationHours,
+        { encryption: options.sessionEncryption, logger: this.logger.child({ component: 'session' }) },
       );
     }
 
+    if (options.sessionMonitor !== false) {
+      this.sessionMonitor = new SessionMonitor(this.auth, {
+        logger: this.logger.child({ component: 'session' }),
+        ...(typeof options.sessionMonitor === 'object' ? options.sessionMonitor : {}),
+      });
+      this.sessionMonitor.on('sessionExpiring', (event) => {
+        this.emit('sessionExpiring', event);
+        void this.renewSession(false);
+      });
+      this.sessionMonitor.on('sessionExpired', (event) => {
+        this.emit('sessionExpired', event);
+        void this.renewSession(true);
+      });
+      this.sessionMonitor.on('sessionValidated', () => void this.extendStoredSession());
+    }
+
     // Initialize new managers
     this.users = new UserManager(this);
     this.messages = new MessageManager(this);
     this.threads = new ThreadManager(this);
     this.notifications = new NotificationManager(this);
 
+    if (options.outbox) {
+      this.outbox = new MessageOutbox(
+        (entry, callOptions) => this.messages._post(entry.payload, callOptions, entry.attempts > 1),
+        {
+          logger: this.logger.child({ component: 'outbox' }),
+          ...(options.outbox === true ? {} : options.outbox),
+        },
+      );
+      for (const event of ['messageQueued', 'messageSent', 'messageFailed']) {
+        this.outbox.on(event, (...args) => this.emit(event, ...args));
+      }
+    }
+
     // Initialize legacy APIs
     this.search = new SearchAPI(this.http, this.state, this);
     this.media = new MediaAPI(this.http, this.state, this);
@@ -95,48 +175,121 @@ export class InterpalClient extends EventEmitter {
     this.posts = new PostsAPI(this.http, this.state, this);
   }
 
+  /**
+   * Picks the transport shared by auth and API requests, wrapping it for traffic recording
+   * or replacing it for replay.
+   * @private
+   */
+  private createTransport(options: InterpalClientOptions): Transport {
+    const { traffic } = options;
+    if (traffic?.mode === 'replay') {
+      return new ReplayTransport(traffic);
+    }
+
+    const transport = options.transport ?? new AxiosTransport({ baseURL: this.endpoints.apiBaseUrl });
+    return traffic?.mode === 'record' ? new RecordingTransport(transport, traffic) : transport;
+  }
+
   async initialize(): Promise<void> {
-    if (this.sessionManager) {
-      const savedSession = await this.sessionManager.loadSession();
-      if (savedSession) {
-        this.auth.importSession(savedSession.sessionCookie, savedSession.authToken, savedSession.botId);
-        const isValid = await this.auth.validateSession();
-        if (isValid) {
-          return;
+    // Logging in under the session lock makes other processes sharing the session file wait
+    // for this login and then reuse its session instead of logging in themselves.
+    await this.withSessionLock(async () => {
+      if (await this.restoreSession()) return;
+
+      if (this.options.sessionCookie) {
+        this.auth.importSession(this.options.sessionCookie, this.options.authToken);
+      }
+
+      if (this.options.autoLogin) {
+        const credentials = await this.resolveCredentials();
+        if (credentials) {
+          await this.signIn(credentials.username, credentials.password);
         }
-        await this.sessionManager.clearSession();
       }
-    }
+    });
 
-    if (this.options.sessionCookie) {
-      this.auth.importSession(this.options.sessionCookie, this.options.authToken);
-    }
+    this.watchSession();
+    await this.outbox?.restore();
+  }
 
-    if (this.options.autoLogin && this.username && this.password) {
-      await this.login();
-    }
+  /**
+   * Logs in and saves the session, with the given username and password or, when both are
+   * omitted, the configured credentials.
+   * @throws {ValidationError} If only one of username and password is given
+   * @throws {LoginChallengeError} If the server asked for verification that was not given
+   */
+  async login(username?: string, password?: string, options?: LoginOptions): Promise<SessionPayload> {
+    return this.withSessionLock(() => this.signIn(username, password, options));
   }
 
-  async login(username?: string, password?: string): Promise<SessionPayload> {
-    const user = username ?? this.username;
-    const pwd = password ?? this.password;
-    if (!user || !pwd) {
+  /**
+   * Logs in and saves the session. Callers hold the session lock.
+   * @private
+   */
+  private async signIn(username?: string, password?: string, options?: LoginOptions): Promise<SessionPayload> {
+    // Never mix a caller's username with a provider's password, which may belong to another account.
+    if (Boolean(username) !== Boolean(password)) {
+      throw new ValidationError('Pass both username and password, or neither to use the configured credentials');
+    }
+    const credentials = username && password ? { username, password } : await this.resolveCredentials();
+    if (!credentials) {
       throw new Error('Username and password required for login');
     }
+    const { username: user, password: pwd } = credentials;
 
-    const session = await this.auth.login(user, pwd);
+    const session = await this.auth.login(user, pwd, options);
     if (this.sessionManager) {
       await this.sessionManager.saveSession({
         sessionCookie: session.sessionCookie,
         authToken: session.authToken,
         botId: session.botId,
+        cookies: session.cookies,
+        sessionExpiresAt: session.sessionExpiresAt,
         username: user,
       });
     }
 
+    // Remember what worked so an expired session can be renewed without the caller. A provider
+    // is asked again next time instead, so its password is not kept.
+    this.username = user;
+    if (!this.credentialProvider) {
+      this.password = pwd;
+    }
+    this.watchSession();
+
     return session;
   }
 
+  /**
+   * Adopts the stored session unless the server rejects it, in which case it is cleared. A session
+   * that cannot be checked because the server is unreachable is kept and adopted.
+   * Callers hold the session lock.
+   * @param rejectedCookie A session cookie known to be rejected, which is skipped without a check
+   * @returns Whether a session was restored
+   * @private
+   */
+  private async restoreSession(rejectedCookie?: string): Promise<boolean> {
+    const saved = await this.sessionManager?.loadSession();
+    if (!saved || saved.sessionCookie === rejectedCookie) {
+      return false;
+    }
+
+    this.auth.importSession(saved.sessionCookie, saved.authToken, saved.botId, saved.cookies, saved.sessionExpiresAt);
+    const status = await this.auth.checkSession();
+    if (status === 'invalid') {
+      await this.sessionManager?.clearSession();
+      return false;
+    }
+    if (status === 'unknown') {
+      this.logger.warn('Could not check the stored session with the server, using it anyway');
+    }
+    return true;
+  }
+
+  private withSessionLock<T>(task: () => Promise<T>): Promise<T> {
+    return this.sessionManager ? this.sessionManager.withLock(task) : task();
+  }
+
   importSession(sessionCookie: string, authToken?: string | null, botId?: string | null): void {
     this.auth.importSession(sessionCookie, authToken, botId);
   }
@@ -149,13 +302,168 @@ export class InterpalClient extends EventEmitter {
     return this.auth.isAuthenticated;
   }
 
+  /**
+   * Ends the session and tears down everything tied to the account: the session is invalidated
+   * on the server, the gateway is disconnected, pending outbox messages are dropped, the stored
+   * session and remembered credentials are cleared and every cache is flushed. Emits `loggedOut`
+   * with `{ serverConfirmed }`.
+   *
+   * Local state is cleared even if the server cannot be reached, so the client can safely be
+   * reused for another account.
+   */
+  async logout(): Promise<void> {
+    this.sessionMonitor?.stop();
+    await this.outbox?.clear(new AuthenticationError('Logged out before the message was sent'));
+    await this.disconnect();
+
+    const confirmed = await this.auth.logout();
+    await this.withSessionLock(async () => this.sessionManager?.clearSession());
+    this.username = undefined;
+    this.password = undefined;
+
+    this.state.clearCaches();
+    for (const manager of [this.users, this.messages, this.threads, this.notifications]) {
+      manager.cache.clear();
+    }
+    await this.http.cache?.clear();
+
+    this.emit('loggedOut', { serverConfirmed: confirmed });
+  }
+
+  /**
+   * Logs in again after the current session expired or was rejected. Concurrent calls share
+   * one login.
+   * @returns Whether a new session was obtained
+   * @private
+   */
+  private refreshSession(): Promise<boolean> {
+    this.refreshing ??= this.relogin().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async relogin(): Promise<boolean> {
+    const credentials = await this.resolveCredentials();
+    if (!credentials) {
+      return false;
+    }
+
+    const rejectedCookie = this.auth.exportSession().sessionCookie;
+    const session = await this.withSessionLock(async () => {
+      // Another process sharing the session file may have renewed it already.
+      if (await this.restoreSession(rejectedCookie)) {
+        return this.auth.exportSession();
+      }
+      return this.signIn(credentials.username, credentials.password);
+    });
+    this.watchSession();
+    this.emit('sessionRefreshed', session);
+    return true;
+  }
+
+  /**
+   * Persists cookies the server rotated on an API response and emits `sessionUpdated`.
+   * @private
+   */
+  private async handleSessionUpdate(session: SessionPayload, cookies: string[]): Promise<void> {
+    try {
+      await this.withSessionLock(async () => this.sessionManager?.saveSession({ ...session, username: this.username }));
+    } catch (error) {
+      this.logger.warn('Could not persist updated session', { error });
+    }
+    this.watchSession();
+    this.emit('sessionUpdated', session, cookies);
+  }
+
+  /**
+   * Starts the session monitor, or re-arms its expiry timers after the session changed.
+   * @private
+   */
+  private watchSession(): void {
+    if (this.auth.isAuthenticated) {
+      this.sessionMonitor?.start();
+    }
+  }
+
+  /**
+   * Renews the session when the monitor reports it expiring or expired. A stored session that
+   * expired and cannot be renewed is cleared so the next start does not try to reuse it.
+   * @private
+   */
+  private async renewSession(expired: boolean): Promise<void> {
+    const expiredCookie = this.auth.exportSession().sessionCookie;
+    let renewed = false;
+    if (this.options.autoReauthenticate !== false) {
+      try {
+        renewed = await this.refreshSession();
+      } catch (error) {
+        this.logger.warn('Could not renew session', { error });
+      }
+    }
+
+    if (expired && !renewed && this.sessionManager) {
+      const sessionManager = this.sessionManager;
+      await this.withSessionLock(async () => {
+        // Leave a session another process has stored since.
+        const stored = await sessionManager.loadSession();
+        if (!stored || stored.sessionCookie === expiredCookie) {
+          await sessionManager.clearSession();
+        }
+      }).catch((error: unknown) => {
+        this.logger.warn('Could not clear expired session', { error });
+      });
+    }
+  }
+
+  /**
+   * Re-saves a session without a server-given expiry after the server accepted it, so its
+   * stored lifetime runs from the last successful check rather than from login.
+   * @private
+   */
+  private async extendStoredSession(): Promise<void> {
+    const sessionManager = this.sessionManager;
+    if (!sessionManager || this.auth.sessionExpiresAt) return;
+    try {
+      await this.withSessionLock(() => sessionManager.saveSession({ ...this.auth.exportSession(), username: this.username }));
+    } catch (error) {
+      this.logger.warn('Could not persist validated session', { error });
+    }
+  }
+
+  /**
+   * Reads credentials from the provider, falling back to the remembered username and password.
+   * @throws {CredentialsError} Naming the provider, if it failed
+   * @private
+   */
+  private async resolveCredentials(): Promise<Credentials | null> {
+    const provider = this.credentialProvider;
+    if (provider) {
+      try {
+        const credentials = await provider.getCredentials();
+        if (credentials) return credentials;
+      } catch (error) {
+        if (error instanceof CredentialsError) throw error;
+        throw new CredentialsError(provider.name, `failed: ${(error as Error).message}`, { cause: error });
+      }
+    }
+    if (this.username && this.password) {
+      return { username: this.username, password: this.password };
+    }
+    return null;
+  }
+
   /**
    * Connects to the Interpal WebSocket gateway.
    * Events from the gateway will be emitted on this client.
    */
   async connect(): Promise<void> {
     if (!this.wsClient) {
-      this.wsClient = new WebSocketClient(this.auth, { intents: this.intents }, { state: this.state });
+      this.wsClient = new WebSocketClient(
+        this.auth,
+        { ...this.options.reconnect, intents: this.intents, gatewayUrl: this.endpoints.gatewayUrl },
+        { state: this.state, logger: this.logger.child({ component: 'websocket' }) },
+      );
       this._setupWebSocketListeners();
     }
     await this.wsClient.connect();
@@ -201,6 +509,14 @@ export class InterpalClient extends EventEmitter {
       this.emit('sequenceGap', gap);
     });
 
+    this.wsClient.on('reconnecting', (event) => {
+      this.emit('reconnecting', event);
+    });
+
+    this.wsClient.on('reconnectFailed', (event) => {
+      this.emit('reconnectFailed', event);
+    });
+
     // Raw event for debugging
     this.wsClient.on('raw', (data) => {
       this.emit('raw', data);
@@ -239,10 +555,19 @@ export class InterpalClient extends EventEmitter {
   private _handleDispatch(event: string, data: any): void {
     try {
       switch (event) {
-        case 'THREAD_NEW_MESSAGE':
+        case 'THREAD_NEW_MESSAGE': {
+          const tmpId: string | undefined = data?.data?.tmp_id;
+          // The send already emitted messageCreate for this one.
+          if (tmpId && this.outbox?.wasDelivered(tmpId)) break;
+
           const message = this.messages._handleMessageCreate(data);
           this.emit('messageCreate', message);
+          if (tmpId) {
+            this.messages._handleEcho(tmpId, message);
+            void this.outbox?.acknowledge(tmpId, message);
+          }
           break;
+        }
 
         case 'THREAD_TYPING':
           this.emit('typingStart', data);
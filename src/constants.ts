@@ -9,5 +9,38 @@ export const DEFAULT_USER_AGENT = 'interpal-js/0.1.0';
 
 export const DEFAULT_SESSION_FILE = '.interpals_session.json';
 
+export const DEFAULT_SESSION_ENV_VAR = 'INTERPALS_SESSION';
+
+export const DEFAULT_SESSION_KEY_ENV_VAR = 'INTERPALS_SESSION_KEY';
+
+export const DEFAULT_USERNAME_ENV_VAR = 'INTERPALS_USERNAME';
+
+export const DEFAULT_PASSWORD_ENV_VAR = 'INTERPALS_PASSWORD';
+
+export const DEFAULT_OUTBOX_FILE = '.interpals_outbox.json';
+
+/** Largest photo `MediaAPI.uploadPhoto` accepts unless told otherwise. */
+export const MAX_PHOTO_SIZE_BYTES = 10 * 1024 * 1024;
+
 export const WEBSOCKET_URL = 'wss://api.interpals.net/v1/ws';
 
+
+export const ENDPOINT_PROFILES = {
+  /** Talk to the Interpals API directly. */
+  direct: {
+    apiBaseUrl: 'https://api.interpals.net',
+    gatewayUrl: WEBSOCKET_URL,
+  },
+  /** Route API calls through the hosted proxy. This is the default. */
+  proxied: {
+    apiBaseUrl: API_BASE_URL,
+    gatewayUrl: WEBSOCKET_URL,
+  },
+  /** A stand-in server on this machine. */
+  local: {
+    apiBaseUrl: 'http://localhost:8080',
+    gatewayUrl: 'ws://localhost:8080/v1/ws',
+  },
+} as const;
+
+export const DEFAULT_ENDPOINT_PROFILE = 'proxied';
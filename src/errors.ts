@@ -1,32 +1,105 @@
+import type { LoginChallenge } from './types/index.js';
+
 /**
  * Custom error hierarchy mirroring the Python library.
  */
 
+export interface InterpalErrorOptions {
+  statusCode?: number;
+  response?: unknown;
+  /** Method of the API request that failed. */
+  method?: string;
+  /** Endpoint of the API request that failed. */
+  endpoint?: string;
+  /** Request id reported by the server, useful when contacting support. */
+  requestId?: string;
+  /** Machine-readable error code from the response body. */
+  errorCode?: string;
+}
+
 export class InterpalError extends Error {
   public readonly statusCode?: number;
   public readonly response?: unknown;
+  public readonly method?: string;
+  public readonly endpoint?: string;
+  public readonly requestId?: string;
+  public readonly errorCode?: string;
 
-  constructor(message: string, options: { statusCode?: number; response?: unknown } = {}) {
+  constructor(message: string, options: InterpalErrorOptions = {}) {
     super(message);
     this.name = this.constructor.name;
     this.statusCode = options.statusCode;
     this.response = options.response;
+    this.method = options.method;
+    this.endpoint = options.endpoint;
+    this.requestId = options.requestId;
+    this.errorCode = options.errorCode;
   }
 }
 
 export class AuthenticationError extends InterpalError {}
 
+/**
+ * Thrown when a credential provider is configured but its credentials cannot be read.
+ */
+export class CredentialsError extends AuthenticationError {
+  /** Name of the provider that failed. */
+  public readonly provider: string;
+
+  constructor(provider: string, problem: string, options: { cause?: unknown } = {}) {
+    super(`Credential provider ${provider} ${problem}`);
+    this.provider = provider;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Thrown when the server asks for verification, a second factor or a captcha during login and
+ * no `onChallenge` handler answered it.
+ */
+export class LoginChallengeError extends AuthenticationError {
+  public readonly challenge: LoginChallenge;
+
+  constructor(
+    challenge: LoginChallenge,
+    message = `Login requires ${challenge.type.replace(/_/g, ' ')}`,
+    options: InterpalErrorOptions = {},
+  ) {
+    super(challenge.message ? `${message}: ${challenge.message}` : message, { errorCode: challenge.type, ...options });
+    this.challenge = challenge;
+  }
+}
+
 export class APIError extends InterpalError {}
 
 export class RateLimitError extends APIError {
   public readonly retryAfter?: number;
 
-  constructor(message = 'Rate limit exceeded', retryAfter?: number) {
-    super(message, { statusCode: 429 });
+  constructor(message = 'Rate limit exceeded', retryAfter?: number, options: InterpalErrorOptions = {}) {
+    super(message, { ...options, statusCode: 429 });
     this.retryAfter = retryAfter;
   }
 }
 
+export class TransportError extends InterpalError {
+  public readonly code?: string;
+
+  constructor(message: string, options: { code?: string; cause?: unknown } = {}) {
+    super(message);
+    this.code = options.code;
+    this.cause = options.cause;
+  }
+}
+
+export class RequestAbortedError extends InterpalError {
+  public readonly reason: 'aborted' | 'timeout';
+
+  constructor(message = 'Request aborted', reason: 'aborted' | 'timeout' = 'aborted') {
+    super(message);
+    this.reason = reason;
+  }
+}
+
 export class WebSocketError extends InterpalError {}
 export class WebSocketConnectionError extends WebSocketError {}
 export class WebSocketTimeoutError extends WebSocketError {}
@@ -41,6 +114,10 @@ export class WebSocketRateLimitError extends WebSocketError {
 }
 
 export class ValidationError extends InterpalError {}
+export class SessionLockError extends InterpalError {}
 export class NotFoundError extends APIError {}
 export class PermissionError extends APIError {}
-
+export class BadRequestError extends APIError {}
+export class ConflictError extends APIError {}
+export class UnprocessableEntityError extends APIError {}
+export class ServerError extends APIError {}
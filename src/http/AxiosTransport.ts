@@ -0,0 +1,69 @@
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import { API_BASE_URL } from '../constants.js';
+import { TransportError } from '../errors.js';
+import type { Transport, TransportHeaders, TransportRequest, TransportResponse } from './Transport.js';
+
+export interface AxiosTransportOptions {
+  baseURL?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Default {@link Transport} backed by axios.
+ */
+export class AxiosTransport implements Transport {
+  private readonly axiosInstance: AxiosInstance;
+
+  constructor(options: AxiosTransportOptions = {}) {
+    this.axiosInstance = axios.create({
+      baseURL: options.baseURL ?? API_BASE_URL,
+      timeout: options.timeoutMs ?? 30_000,
+    });
+  }
+
+  async request<T = unknown>({
+    method,
+    url,
+    params,
+    data,
+    headers,
+    signal,
+    timeoutMs,
+  }: TransportRequest): Promise<TransportResponse<T>> {
+    try {
+      const response = await this.axiosInstance.request<T>({
+        method,
+        url,
+        params,
+        data,
+        headers,
+        signal,
+        timeout: timeoutMs,
+      });
+      return this.toTransportResponse(response);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response) {
+          return this.toTransportResponse(error.response as AxiosResponse<T>);
+        }
+        throw new TransportError(error.message, { code: error.code, cause: error });
+      }
+
+      throw new TransportError((error as Error).message, { cause: error });
+    }
+  }
+
+  private toTransportResponse<T>(response: AxiosResponse<T>): TransportResponse<T> {
+    const headers: TransportHeaders = {};
+    for (const [key, value] of Object.entries(response.headers ?? {})) {
+      if (value === undefined || value === null) continue;
+      headers[key.toLowerCase()] = Array.isArray(value) ? value.map(String) : String(value);
+    }
+
+    return {
+      status: response.status,
+      headers,
+      data: response.data,
+    };
+  }
+}
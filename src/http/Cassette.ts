@@ -0,0 +1,244 @@
+import { promises as fs } from 'node:fs';
+import { dirname, extname, resolve } from 'node:path';
+import { ValidationError } from '../errors.js';
+import type { RequestParams } from '../types/index.js';
+import { redact, redactString } from '../utils/redact.js';
+import type { HttpMethod, TransportHeaders, TransportRequest, TransportResponse } from './Transport.js';
+
+export type CassetteFormat = 'har' | 'jsonl';
+
+/**
+ * One recorded exchange. A request that never got a response records `error` instead.
+ */
+export interface CassetteEntry {
+  recordedAt: string;
+  durationMs: number;
+  request: {
+    method: HttpMethod;
+    url: string;
+    params?: RequestParams;
+    headers: Record<string, string>;
+    data?: unknown;
+  };
+  response?: TransportResponse;
+  error?: { message: string; code?: string };
+}
+
+const HAR_CREATOR = { name: 'interpal-js', version: '0.1.0' };
+
+/**
+ * Picks a format from the file extension: `.har` for HAR, anything else for JSONL.
+ */
+export const cassetteFormatFor = (file: string): CassetteFormat => (extname(file) === '.har' ? 'har' : 'jsonl');
+
+const serializeBody = (data: unknown): unknown => {
+  if (data === undefined || data === null) return data;
+  // Pre-encoded form and text bodies carry the same secrets as URLSearchParams ones.
+  if (typeof data === 'string') return redactString(data);
+  if (data instanceof URLSearchParams) return redact(data);
+  if (ArrayBuffer.isView(data) || data instanceof ArrayBuffer) return '[binary]';
+  const proto = Object.getPrototypeOf(data);
+  if (typeof data === 'object' && proto !== Object.prototype && proto !== Array.prototype && proto !== null) {
+    return '[stream]';
+  }
+  return redact(data);
+};
+
+/**
+ * Builds a cassette entry with cookies, tokens and passwords masked. `Set-Cookie` headers keep
+ * their cookie names so a replayed login still finds its session cookie.
+ */
+export const createCassetteEntry = (
+  request: TransportRequest,
+  outcome: { response?: TransportResponse; error?: CassetteEntry['error'] },
+  startedAt: number,
+): CassetteEntry => {
+  const entry: CassetteEntry = {
+    recordedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    request: {
+      method: request.method,
+      url: redactString(request.url),
+      params: request.params ? (redact(request.params) as RequestParams) : undefined,
+      headers: redact(request.headers) as Record<string, string>,
+      data: serializeBody(request.data),
+    },
+  };
+
+  if (outcome.response) {
+    const { 'set-cookie': setCookie, ...headers } = outcome.response.headers;
+    const redactedHeaders = redact(headers) as TransportHeaders;
+    if (setCookie !== undefined) {
+      redactedHeaders['set-cookie'] = Array.isArray(setCookie) ? setCookie.map(redactString) : redactString(setCookie);
+    }
+    entry.response = { status: outcome.response.status, headers: redactedHeaders, data: serializeBody(outcome.response.data) };
+  }
+  if (outcome.error) {
+    entry.error = outcome.error;
+  }
+  return entry;
+};
+
+const toNameValues = (record: Record<string, unknown> = {}): { name: string; value: string }[] =>
+  Object.entries(record).flatMap(([name, value]) => {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value.map((item) => ({ name, value: String(item) })) : [{ name, value: String(value) }];
+  });
+
+const fromNameValues = (pairs: { name: string; value: string }[] = []): Record<string, string | string[]> => {
+  const result: Record<string, string | string[]> = {};
+  for (const { name, value } of pairs) {
+    const existing = result[name];
+    result[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+  return result;
+};
+
+const parseText = (text?: string): unknown => {
+  if (text === undefined || text === '') return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const toText = (data: unknown): string | undefined =>
+  data === undefined ? undefined : typeof data === 'string' ? data : JSON.stringify(data);
+
+/**
+ * Converts cassette entries to a HAR 1.2 document.
+ */
+export const toHar = (entries: CassetteEntry[]): Record<string, unknown> => ({
+  log: {
+    version: '1.2',
+    creator: HAR_CREATOR,
+    entries: entries.map(({ recordedAt, durationMs, request, response, error }) => ({
+      startedDateTime: recordedAt,
+      time: durationMs,
+      request: {
+        method: request.method,
+        url: request.url,
+        httpVersion: 'HTTP/1.1',
+        headers: toNameValues(request.headers),
+        queryString: toNameValues(request.params),
+        cookies: [],
+        headersSize: -1,
+        bodySize: -1,
+        ...(request.data !== undefined && {
+          postData: { mimeType: request.headers['Content-Type'] ?? 'application/json', text: toText(request.data) },
+        }),
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: '',
+        httpVersion: 'HTTP/1.1',
+        headers: toNameValues(response?.headers),
+        cookies: [],
+        content: {
+          size: -1,
+          mimeType: String(response?.headers['content-type'] ?? 'application/json'),
+          text: toText(response?.data),
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: durationMs, receive: 0 },
+      ...(error && { _error: error }),
+    })),
+  },
+});
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/** The parts of a HAR 1.2 entry that {@link fromHar} reads. */
+interface HarEntry {
+  startedDateTime: string;
+  time?: number;
+  request: {
+    method: HttpMethod;
+    url: string;
+    headers?: HarNameValue[];
+    queryString?: HarNameValue[];
+    postData?: { text?: string };
+  };
+  response: {
+    status: number;
+    headers?: HarNameValue[];
+    content?: { text?: string };
+  };
+  _error?: CassetteEntry['error'];
+}
+
+const isHarDocument = (value: unknown): value is { log: { entries: HarEntry[] } } => {
+  const log = (value as { log?: { entries?: unknown } } | null)?.log;
+  return Array.isArray(log?.entries);
+};
+
+/**
+ * Reads cassette entries back from a HAR document.
+ */
+export const fromHar = (har: unknown): CassetteEntry[] => {
+  if (!isHarDocument(har)) {
+    throw new ValidationError('Not a HAR document: missing log.entries');
+  }
+
+  return har.log.entries.map((entry): CassetteEntry => {
+    const params: RequestParams = Object.fromEntries(
+      (entry.request.queryString ?? []).map(({ name, value }) => [name, value]),
+    );
+    return {
+      recordedAt: entry.startedDateTime,
+      durationMs: entry.time ?? 0,
+      request: {
+        method: entry.request.method,
+        url: entry.request.url,
+        params: Object.keys(params).length > 0 ? params : undefined,
+        headers: fromNameValues(entry.request.headers) as Record<string, string>,
+        data: parseText(entry.request.postData?.text),
+      },
+      response: entry._error
+        ? undefined
+        : {
+            status: entry.response.status,
+            headers: Object.fromEntries(
+              Object.entries(fromNameValues(entry.response.headers)).map(([name, value]) => [name.toLowerCase(), value]),
+            ),
+            data: parseText(entry.response.content?.text),
+          },
+      error: entry._error,
+    };
+  });
+};
+
+/**
+ * Loads a cassette written in either format.
+ */
+export const readCassette = async (file: string): Promise<CassetteEntry[]> => {
+  const raw = await fs.readFile(resolve(file), 'utf-8');
+  if (cassetteFormatFor(file) === 'har') {
+    return fromHar(JSON.parse(raw));
+  }
+  return raw
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as CassetteEntry);
+};
+
+/**
+ * Writes a whole cassette, replacing the file.
+ */
+export const writeCassette = async (file: string, entries: CassetteEntry[], format = cassetteFormatFor(file)): Promise<void> => {
+  const path = resolve(file);
+  await fs.mkdir(dirname(path), { recursive: true });
+  const content =
+    format === 'har'
+      ? JSON.stringify(toHar(entries), null, 2)
+      : entries.map((entry) => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : '');
+  await fs.writeFile(path, content, 'utf-8');
+};
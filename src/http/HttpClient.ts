@@ -1,56 +1,239 @@
-import axios, { type AxiosInstance } from 'axios';
-import axiosRetry from 'axios-retry';
-import Bottleneck from 'bottleneck';
-import { API_BASE_URL } from '../constants.js';
+import { EventEmitter } from 'node:events';
+import { Readable } from 'node:stream';
 import { randomUserAgent } from '../utils/randomUserAgent.js';
-import {
-  APIError,
-  AuthenticationError,
-  RateLimitError,
-} from '../errors.js';
-import type { RequestOptions } from '../types/index.js';
+import { createLogger, type Logger } from '../utils/logger.js';
+import { abortable, linkSignal, toAbortError } from '../utils/abort.js';
+import { RequestAbortedError, TransportError } from '../errors.js';
+import type { CallOptions, RequestOptions, RequestPriority } from '../types/index.js';
 import { AuthManager } from '../auth/AuthManager.js';
+import { AxiosTransport } from './AxiosTransport.js';
+import type { Transport, TransportResponse } from './Transport.js';
+import { ResponseCache, type ResponseCacheOptions } from './ResponseCache.js';
+import {
+  REQUEST_PRIORITIES,
+  RateLimitBucket,
+  defaultBucketResolver,
+  type BucketResolver,
+  type PriorityQueueStats,
+  type RateLimitBucketName,
+  type RateLimitBucketSnapshot,
+  type RateLimitInfo,
+} from './RateLimitBucket.js';
+import {
+  createErrorMappingMiddleware,
+  createRetryMiddleware,
+  type HttpContext,
+  type HttpMiddleware,
+} from './middleware.js';
 
 export interface HttpClientOptions {
   maxRetries?: number;
   minRequestIntervalMs?: number;
+  /** Transport to send requests through. Defaults to an {@link AxiosTransport}. */
+  transport?: Transport;
+  /** Base URL for the default transport. Ignored when `transport` is given. */
+  apiBaseUrl?: string;
+  /** Decides which rate-limit bucket a request belongs to. */
+  bucketResolver?: BucketResolver;
+  /**
+   * Rate-limit buckets to use instead of private ones. Give several clients the same map to make
+   * them share one quota per bucket.
+   */
+  buckets?: Map<RateLimitBucketName, RateLimitBucket>;
+  /** Middleware to run on every request, after the built-in error mapping, cache and retry steps. */
+  middleware?: HttpMiddleware[];
+  /** Receives request and response logs. Secrets are redacted before they reach it. */
+  logger?: Logger;
+  /**
+   * Called when a request is rejected with 401. Should log in again and resolve `true` if the
+   * request can be replayed with the new session, or `false` if no refresh is possible.
+   */
+  refreshSession?: SessionRefresher;
+  /** Coalesce concurrent identical GET requests. Defaults to `true`; can be overridden per call with `dedupe`. */
+  dedupeGets?: boolean;
+  /** Conditional-request cache for GETs. `true` uses an in-memory cache that revalidates every hit. */
+  cache?: boolean | ResponseCacheOptions | ResponseCache;
 }
 
-export class HttpClient {
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export type SessionRefresher = () => Promise<boolean>;
+
+/**
+ * Sends API requests through per-route rate-limit buckets.
+ *
+ * Emits `rateLimited` with a {@link RateLimitInfo} whenever a bucket runs out of quota, and
+ * `sessionUpdated` with the new session and the changed cookie names whenever a response
+ * sets cookies.
+ */
+export class HttpClient extends EventEmitter {
   private readonly auth: AuthManager;
-  private readonly axiosInstance: AxiosInstance;
-  private readonly limiter: Bottleneck;
+  readonly transport: Transport;
+  private readonly minRequestInterval: number;
+  private readonly bucketResolver: BucketResolver;
+  private readonly buckets: Map<RateLimitBucketName, RateLimitBucket>;
+  private readonly middleware: HttpMiddleware[];
+  private readonly logger: Logger;
+  private readonly sessionRefresher?: SessionRefresher;
+  private refreshing: Promise<boolean> | null = null;
+  private readonly dedupeGets: boolean;
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  /** The response cache, if one is enabled. */
+  readonly cache?: ResponseCache;
 
   constructor(auth: AuthManager, options: HttpClientOptions = {}) {
+    super();
     this.auth = auth;
-    this.axiosInstance = axios.create({
-      baseURL: API_BASE_URL,
-      timeout: 30_000,
-    });
-
-    axiosRetry(this.axiosInstance, {
-      retries: options.maxRetries ?? 3,
-      retryDelay: axiosRetry.exponentialDelay,
-      retryCondition: (error) =>
-        axiosRetry.isNetworkOrIdempotentRequestError(error) ||
-        error.response?.status === 429 ||
-        error.response?.status === 503,
-    });
-
-    this.limiter = new Bottleneck({
-      minTime: options.minRequestIntervalMs ?? 1_000,
-      maxConcurrent: 1,
-    });
-  }
-
-  async request<T = unknown>({
+    this.transport = options.transport ?? new AxiosTransport({ baseURL: options.apiBaseUrl });
+    this.minRequestInterval = options.minRequestIntervalMs ?? 1_000;
+    this.bucketResolver = options.bucketResolver ?? defaultBucketResolver;
+    this.buckets = options.buckets ?? new Map();
+    this.logger = createLogger(options.logger);
+    this.sessionRefresher = options.refreshSession;
+    this.dedupeGets = options.dedupeGets ?? true;
+    if (options.cache) {
+      this.cache = options.cache instanceof ResponseCache
+        ? options.cache
+        : new ResponseCache(options.cache === true ? {} : options.cache);
+    }
+    this.middleware = [
+      createErrorMappingMiddleware(),
+      this.reauthenticate,
+      ...(this.cache ? [this.cache.middleware] : []),
+      createRetryMiddleware({ maxRetries: options.maxRetries ?? 3 }),
+      ...(options.middleware ?? []),
+    ];
+  }
+
+  /**
+   * Appends middleware to the request pipeline.
+   * @param middleware The middleware to add
+   * @returns This client for chaining
+   */
+  use(middleware: HttpMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  async request<T = unknown>(options: RequestOptions): Promise<T> {
+    const { method = 'GET', dedupe = this.dedupeGets, ...rest } = options;
+    if (method !== 'GET' || !dedupe) {
+      return this.execute<T>({ ...rest, method });
+    }
+
+    // Identical GETs share one request. Each caller keeps its own signal and timeout, and the
+    // shared request is only cancelled once every caller has given up on it.
+    const key = JSON.stringify([rest.endpoint, this.sortParams(rest.params), rest.headers ?? {}]);
+    let entry = this.inFlight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.execute({ ...rest, method, signal: controller.signal, timeoutMs: undefined }).finally(() => {
+          if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+        }),
+      };
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    entry.subscribers += 1;
+    const { signal, dispose } = linkSignal(rest.signal, rest.timeoutMs);
+    try {
+      return (await abortable(entry.promise, signal)) as T;
+    } finally {
+      dispose();
+      entry.subscribers -= 1;
+      if (entry.subscribers === 0 && signal?.aborted) {
+        if (this.inFlight.get(key) === entry) this.inFlight.delete(key);
+        entry.controller.abort(signal.reason);
+      }
+    }
+  }
+
+  /**
+   * Returns a snapshot of every rate-limit bucket seen so far.
+   */
+  getRateLimits(): RateLimitBucketSnapshot[] {
+    return Array.from(this.buckets.values(), (bucket) => bucket.toJSON());
+  }
+
+  /**
+   * Returns queue depth and wait times per priority, summed over every bucket.
+   */
+  getQueueStats(): Record<RequestPriority, PriorityQueueStats> {
+    const snapshots = this.getRateLimits();
+    return Object.fromEntries(
+      REQUEST_PRIORITIES.map((priority) => {
+        const stats = snapshots.map((snapshot) => snapshot.priorities[priority]);
+        const started = stats.reduce((sum, entry) => sum + entry.started, 0);
+        const totalWaitMs = stats.reduce((sum, entry) => sum + entry.averageWaitMs * entry.started, 0);
+        return [
+          priority,
+          {
+            queued: stats.reduce((sum, entry) => sum + entry.queued, 0),
+            started,
+            averageWaitMs: started ? totalWaitMs / started : 0,
+            maxWaitMs: Math.max(0, ...stats.map((entry) => entry.maxWaitMs)),
+          },
+        ];
+      }),
+    ) as Record<RequestPriority, PriorityQueueStats>;
+  }
+
+  get<T = unknown>(endpoint: string, params?: RequestOptions['params'], options: CallOptions = {}) {
+    return this.request<T>({ ...options, method: 'GET', endpoint, params });
+  }
+
+  post<T = unknown>(
+    endpoint: string,
+    data?: RequestOptions['data'],
+    headers?: Record<string, string>,
+    options: CallOptions = {},
+  ) {
+    return this.request<T>({ ...options, method: 'POST', endpoint, data, headers });
+  }
+
+  put<T = unknown>(endpoint: string, data?: RequestOptions['data'], options: CallOptions = {}) {
+    return this.request<T>({ ...options, method: 'PUT', endpoint, data });
+  }
+
+  delete<T = unknown>(endpoint: string, options: CallOptions = {}) {
+    return this.request<T>({ ...options, method: 'DELETE', endpoint });
+  }
+
+  private async execute<T = unknown>({
     method = 'GET',
     endpoint,
     data,
     params,
     headers,
+    signal: callerSignal,
+    timeoutMs,
+    priority,
+    ...rest
   }: RequestOptions): Promise<T> {
-    const run = async () => {
+    if (method === 'GET' && this.cache) {
+      const cached = await this.cache.getFresh({ endpoint, params });
+      if (cached) {
+        this.logger.debug('HTTP cache hit', { method, endpoint, params });
+        return cached.data as T;
+      }
+    }
+
+    const { signal, dispose } = linkSignal(callerSignal, timeoutMs);
+    const bucket = this.getBucket(this.bucketResolver(method, endpoint));
+    const run = () => {
+      if (signal?.aborted) {
+        throw toAbortError(signal);
+      }
+
+      // Headers are built when the request leaves the queue so it carries the latest session.
       const finalHeaders: Record<string, string> = {
         ...this.auth.getHeaders(),
         ...(headers ?? {}),
@@ -60,74 +243,144 @@ export class HttpClient {
         finalHeaders['User-Agent'] = randomUserAgent({ base: this.auth.userAgentString });
       }
 
-      try {
-        console.log('requesting', method, endpoint, data, params, finalHeaders);
-        const response = await this.axiosInstance.request<T>({
-          method,
-          url: endpoint,
-          data,
-          params,
-          headers: finalHeaders,
-        });
-        return response.data;
-      } catch (error) {
-        if (axios.isAxiosError(error)) {
-          const status = error.response?.status;
-
-          if (status === 401) {
-            throw new AuthenticationError('Unauthorized - invalid or expired session', { statusCode: 401 });
-          }
-
-          if (status === 429) {
-            const retryAfterHeader = error.response?.headers?.['retry-after'];
-            const retryAfter = retryAfterHeader ? Number(retryAfterHeader) : undefined;
-            throw new RateLimitError('Rate limit exceeded', retryAfter);
-          }
-
-          if (status === 403) {
-            throw new APIError('Forbidden - insufficient permissions', {
-              statusCode: 403,
-              response: error.response?.data,
-            });
-          }
-
-          if (status === 404) {
-            throw new APIError('Resource not found', {
-              statusCode: 404,
-              response: error.response?.data,
-            });
-          }
-
-          throw new APIError(
-            `API request failed with status ${status ?? 'unknown'}`,
-            {
-              statusCode: status,
-              response: error.response?.data,
-            },
-          );
-        }
-
-        throw error;
-      }
+      const ctx: HttpContext = {
+        request: { ...rest, method, endpoint, data, params, headers: finalHeaders, signal, timeoutMs },
+        bucket: bucket.name,
+        attempt: 0,
+        state: {},
+      };
+      return this.dispatch(ctx, 0);
     };
 
-    return this.limiter.schedule(run);
+    try {
+      const response = await abortable(bucket.schedule(run, priority), signal);
+      return response.data as T;
+    } finally {
+      dispose();
+    }
   }
 
-  get<T = unknown>(endpoint: string, params?: RequestOptions['params']) {
-    return this.request<T>({ method: 'GET', endpoint, params });
+  /**
+   * Waits for any in-progress session refresh before sending, and on a 401 refreshes the
+   * session once and replays the request. Concurrent 401s share a single refresh. The server
+   * rejected the first attempt, so replaying is safe even for requests sent with `retry: false`.
+   * Requests with a stream body still trigger the refresh but are not replayed.
+   */
+  private readonly reauthenticate: HttpMiddleware = async (ctx, next) => {
+    if (!this.sessionRefresher) {
+      return next();
+    }
+
+    if (this.refreshing) {
+      await this.refreshing.catch(() => false);
+      this.applyAuthHeaders(ctx);
+    }
+
+    const response = await next();
+    if (response.status !== 401 || ctx.state.reauthenticated) {
+      return response;
+    }
+
+    ctx.state.reauthenticated = true;
+    this.logger.info('Session rejected, refreshing', { method: ctx.request.method, endpoint: ctx.request.endpoint });
+    if (!this.refreshing) {
+      this.refreshing = this.sessionRefresher().finally(() => {
+        this.refreshing = null;
+      });
+    }
+
+    const refreshed = await this.refreshing;
+    // A stream has been consumed by the first attempt, so a replay would send an empty body.
+    if (!refreshed || ctx.request.data instanceof Readable) {
+      return response;
+    }
+
+    this.applyAuthHeaders(ctx);
+    return next();
+  };
+
+  private applyAuthHeaders(ctx: HttpContext): void {
+    const { 'User-Agent': _userAgent, ...authHeaders } = this.auth.getHeaders();
+    ctx.request.headers = { ...ctx.request.headers, ...authHeaders };
   }
 
-  post<T = unknown>(endpoint: string, data?: RequestOptions['data'], headers?: Record<string, string>) {
-    return this.request<T>({ method: 'POST', endpoint, data, headers });
+  private sortParams(params?: RequestOptions['params']): [string, unknown][] {
+    return Object.entries(params ?? {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
   }
 
-  put<T = unknown>(endpoint: string, data?: RequestOptions['data']) {
-    return this.request<T>({ method: 'PUT', endpoint, data });
+  private dispatch(ctx: HttpContext, index: number): Promise<TransportResponse> {
+    const middleware = this.middleware[index];
+    if (middleware) {
+      return middleware(ctx, () => this.dispatch(ctx, index + 1));
+    }
+    return this.send(ctx);
   }
 
-  delete<T = unknown>(endpoint: string) {
-    return this.request<T>({ method: 'DELETE', endpoint });
+  private async send(ctx: HttpContext): Promise<TransportResponse> {
+    const { method, endpoint, data, params, headers, signal, timeoutMs } = ctx.request;
+
+    this.logger.debug('HTTP request', { method, endpoint, params, data, headers, attempt: ctx.attempt });
+    let response: TransportResponse;
+    try {
+      response = await this.transport.request({
+        method,
+        url: endpoint,
+        data,
+        params,
+        headers,
+        signal,
+        timeoutMs,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toAbortError(signal);
+      }
+      this.logger.warn('HTTP request failed', { method, endpoint, error });
+      if (timeoutMs && error instanceof TransportError && error.code === 'ECONNABORTED') {
+        throw new RequestAbortedError(`Request timed out after ${timeoutMs}ms`, 'timeout');
+      }
+      throw error;
+    }
+
+    this.logger.debug('HTTP response', { method, endpoint, status: response.status, headers: response.headers });
+    this.updateBucket(this.getBucket(ctx.bucket), response, method, endpoint);
+    const changedCookies = this.auth.updateFromResponse(response.headers);
+    if (changedCookies.length > 0) {
+      this.emit('sessionUpdated', this.auth.exportSession(), changedCookies);
+    }
+    return response;
   }
-}
 
+  private getBucket(name: RateLimitBucketName): RateLimitBucket {
+    let bucket = this.buckets.get(name);
+    if (!bucket) {
+      bucket = new RateLimitBucket(name, this.minRequestInterval);
+      this.buckets.set(name, bucket);
+    }
+    return bucket;
+  }
+
+  private updateBucket(
+    bucket: RateLimitBucket,
+    response: TransportResponse,
+    method: RateLimitInfo['method'],
+    endpoint: string,
+  ): void {
+    const { exhausted, retryAfterMs } = bucket.update(response);
+    if (!exhausted) return;
+
+    const info: RateLimitInfo = {
+      bucket: bucket.name,
+      limit: bucket.limit,
+      remaining: bucket.remaining,
+      resetAt: bucket.resetAt,
+      retryAfterMs,
+      method,
+      endpoint,
+    };
+    this.logger.warn('Rate limit bucket exhausted', { ...info });
+    this.emit('rateLimited', info);
+  }
+}
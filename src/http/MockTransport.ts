@@ -0,0 +1,175 @@
+import { TransportError, ValidationError } from '../errors.js';
+import type { RequestParams } from '../types/index.js';
+import type { HttpMethod, Transport, TransportHeaders, TransportRequest, TransportResponse } from './Transport.js';
+
+export interface MockRequest extends TransportRequest {
+  /** The request path without its query string. */
+  path: string;
+  /** Values captured from `:name` segments of the matched route. */
+  routeParams: Record<string, string>;
+}
+
+export interface MockResponse<T = unknown> {
+  status?: number;
+  headers?: TransportHeaders;
+  data?: T;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockCall {
+  method: HttpMethod;
+  path: string;
+  params: RequestParams;
+  data: unknown;
+  headers: Record<string, string>;
+  status?: number;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+  remaining: number;
+}
+
+/**
+ * In-memory {@link Transport} for tests.
+ *
+ * Routes are registered as `'<METHOD> <path>'`, where path segments starting with `:` match
+ * any value. Later registrations take precedence, so a test can override a default route.
+ * Unmatched requests receive a 404.
+ *
+ * @example
+ * const transport = new MockTransport()
+ *   .route('POST /v1/token', { data: { auth_token: 't' }, headers: { 'set-cookie': ['interpals_sessid=abc'] } })
+ *   .route('GET /v1/profile/:id', ({ routeParams }) => ({ data: { id: routeParams.id } }))
+ *   .route('POST /v1/message', { status: 429, headers: { 'retry-after': '2' } }, { times: 1 });
+ */
+export class MockTransport implements Transport {
+  private readonly routes: MockRoute[] = [];
+  private readonly recorded: MockCall[] = [];
+
+  /**
+   * Registers a route.
+   * @param spec Method and path, e.g. `'GET /v1/thread'`
+   * @param handler A handler, or a static response to return
+   * @param options `times` limits how often the route can match
+   * @returns This transport for chaining
+   */
+  route(spec: string, handler: MockHandler | MockResponse, options: { times?: number } = {}): this {
+    const { method, path } = this.parseSpec(spec);
+    const keys: string[] = [];
+    const source = path
+      .split('/')
+      .map((segment) => {
+        if (segment.startsWith(':')) {
+          keys.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    this.routes.unshift({
+      method,
+      pattern: new RegExp(`^${source}/?$`),
+      keys,
+      handler: typeof handler === 'function' ? handler : () => handler,
+      remaining: options.times ?? Infinity,
+    });
+    return this;
+  }
+
+  /**
+   * All requests received so far, in order.
+   */
+  get calls(): readonly MockCall[] {
+    return this.recorded;
+  }
+
+  /**
+   * Requests received for a given route spec, e.g. `'GET /v1/profile/:id'`.
+   */
+  callsTo(spec: string): MockCall[] {
+    const { method, path } = this.parseSpec(spec);
+    const pattern = new RegExp(`^${path.replace(/:[^/]+/g, '[^/]+')}/?$`);
+    return this.recorded.filter((call) => call.method === method && pattern.test(call.path));
+  }
+
+  /**
+   * Removes every route and recorded call.
+   */
+  reset(): void {
+    this.routes.length = 0;
+    this.recorded.length = 0;
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const [path, query] = request.url.split('?', 2);
+    const params: RequestParams = { ...Object.fromEntries(new URLSearchParams(query ?? '')), ...(request.params ?? {}) };
+    const call: MockCall = {
+      method: request.method,
+      path,
+      params,
+      data: request.data,
+      headers: { ...request.headers },
+    };
+    this.recorded.push(call);
+
+    if (request.signal?.aborted) {
+      throw new TransportError('Request aborted', { code: 'ERR_CANCELED', cause: request.signal.reason });
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== request.method || route.remaining <= 0) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      route.remaining -= 1;
+      const routeParams = Object.fromEntries(route.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]));
+
+      let result: MockResponse;
+      try {
+        result = await this.raceAbort(Promise.resolve(route.handler({ ...request, params, path, routeParams })), request.signal);
+      } catch (error) {
+        if (error instanceof TransportError) throw error;
+        throw new TransportError(`Mock handler for ${request.method} ${path} failed: ${(error as Error).message}`, {
+          cause: error,
+        });
+      }
+
+      call.status = result.status ?? 200;
+      return {
+        status: call.status,
+        headers: Object.fromEntries(Object.entries(result.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value])),
+        data: result.data as T,
+      };
+    }
+
+    call.status = 404;
+    return {
+      status: 404,
+      headers: {},
+      data: { error: `No mock route for ${request.method} ${path}` } as T,
+    };
+  }
+
+  private raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new TransportError('Request aborted', { code: 'ERR_CANCELED', cause: signal.reason }));
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private parseSpec(spec: string): { method: HttpMethod; path: string } {
+    const [method, path] = spec.trim().split(/\s+/, 2);
+    if (!path || !['GET', 'POST', 'PUT', 'DELETE'].includes(method.toUpperCase())) {
+      throw new ValidationError(`Invalid mock route "${spec}", expected "<METHOD> <path>"`);
+    }
+    return { method: method.toUpperCase() as HttpMethod, path };
+  }
+}
@@ -0,0 +1,196 @@
+import Bottleneck from 'bottleneck';
+import type { RequestPriority } from '../types/index.js';
+import { getHeader, type HttpMethod, type TransportResponse } from './Transport.js';
+
+export type RateLimitBucketName = 'messages' | 'profiles' | 'search' | 'uploads' | 'global' | (string & {});
+
+export type BucketResolver = (method: HttpMethod, endpoint: string) => RateLimitBucketName;
+
+export interface RateLimitInfo {
+  bucket: RateLimitBucketName;
+  limit?: number;
+  remaining?: number;
+  /** When the bucket's quota resets, if the server told us. */
+  resetAt?: Date;
+  /** Delay requested by a `Retry-After` header, in milliseconds. */
+  retryAfterMs?: number;
+  method: HttpMethod;
+  endpoint: string;
+}
+
+export interface PriorityQueueStats {
+  /** Requests waiting for their turn. */
+  queued: number;
+  /** Requests that have left the queue. */
+  started: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+export interface RateLimitBucketSnapshot {
+  name: RateLimitBucketName;
+  limit?: number;
+  remaining?: number;
+  resetAt?: Date;
+  queued: number;
+  priorities: Record<RequestPriority, PriorityQueueStats>;
+}
+
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ['high', 'normal', 'low'];
+
+// Bottleneck runs lower numbers first.
+const BOTTLENECK_PRIORITY: Record<RequestPriority, number> = { high: 1, normal: 5, low: 9 };
+
+interface PriorityCounters {
+  queued: number;
+  started: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Maps a request onto one of the built-in buckets so that, for example,
+ * a burst of profile lookups does not hold up message sends.
+ */
+export const defaultBucketResolver: BucketResolver = (method, endpoint) => {
+  const path = endpoint.split('?')[0];
+
+  if (path.startsWith('/v1/message') || path.startsWith('/v1/thread/typing')) {
+    return method === 'GET' ? 'global' : 'messages';
+  }
+  if (path.startsWith('/v1/profile') || path === '/v1/account/self') {
+    return 'profiles';
+  }
+  if (path.startsWith('/v1/search')) {
+    return 'search';
+  }
+  if (method === 'POST' && path.startsWith('/v1/photo')) {
+    return 'uploads';
+  }
+  return 'global';
+};
+
+const parseNumber = (value?: string): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Parses a `Retry-After` header, which is either a delay in seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const seconds = parseNumber(value);
+  if (seconds !== undefined) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * A single rate-limit bucket. Requests in a bucket run one at a time and
+ * wait out the reset window once the server reports the quota is exhausted.
+ */
+export class RateLimitBucket {
+  readonly name: RateLimitBucketName;
+  limit?: number;
+  remaining?: number;
+  resetAt?: Date;
+
+  private readonly limiter: Bottleneck;
+  private readonly counters = Object.fromEntries(
+    REQUEST_PRIORITIES.map((priority) => [priority, { queued: 0, started: 0, totalWaitMs: 0, maxWaitMs: 0 }]),
+  ) as Record<RequestPriority, PriorityCounters>;
+
+  constructor(name: RateLimitBucketName, minTime: number) {
+    this.name = name;
+    this.limiter = new Bottleneck({ minTime, maxConcurrent: 1 });
+  }
+
+  /**
+   * Queues a task. Higher-priority tasks overtake queued lower-priority ones, but never
+   * interrupt a task that is already running.
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'normal'): Promise<T> {
+    const counters = this.counters[priority];
+    const queuedAt = Date.now();
+    let started = false;
+    const start = () => {
+      if (started) return;
+      started = true;
+      const waitMs = Date.now() - queuedAt;
+      counters.queued -= 1;
+      counters.started += 1;
+      counters.totalWaitMs += waitMs;
+      counters.maxWaitMs = Math.max(counters.maxWaitMs, waitMs);
+    };
+
+    counters.queued += 1;
+    return this.limiter
+      .schedule({ priority: BOTTLENECK_PRIORITY[priority] }, async () => {
+        await this.waitForReset();
+        start();
+        return task();
+      })
+      .finally(start);
+  }
+
+  /**
+   * Updates the bucket from `X-RateLimit-*` and `Retry-After` response headers.
+   * @returns Whether the bucket is now exhausted, and any `Retry-After` delay
+   */
+  update(response: TransportResponse): { exhausted: boolean; retryAfterMs?: number } {
+    const { headers } = response;
+    const limit = parseNumber(getHeader(headers, 'x-ratelimit-limit'));
+    const remaining = parseNumber(getHeader(headers, 'x-ratelimit-remaining'));
+    const resetAfter = parseNumber(getHeader(headers, 'x-ratelimit-reset-after'));
+    const reset = parseNumber(getHeader(headers, 'x-ratelimit-reset'));
+    const retryAfterMs = parseRetryAfter(getHeader(headers, 'retry-after'));
+
+    if (limit !== undefined) this.limit = limit;
+    if (remaining !== undefined) this.remaining = remaining;
+
+    if (retryAfterMs !== undefined) {
+      this.resetAt = new Date(Date.now() + retryAfterMs);
+    } else if (resetAfter !== undefined) {
+      this.resetAt = new Date(Date.now() + resetAfter * 1000);
+    } else if (reset !== undefined) {
+      // Large values are epoch seconds, small ones are a delay in seconds.
+      this.resetAt = new Date(reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000);
+    }
+
+    if (response.status === 429) {
+      this.remaining = 0;
+      this.resetAt ??= new Date(Date.now() + 1_000);
+    }
+
+    return { exhausted: this.remaining === 0 && this.resetAt !== undefined, retryAfterMs };
+  }
+
+  toJSON(): RateLimitBucketSnapshot {
+    return {
+      name: this.name,
+      limit: this.limit,
+      remaining: this.remaining,
+      resetAt: this.resetAt,
+      queued: this.limiter.counts().QUEUED,
+      priorities: Object.fromEntries(
+        REQUEST_PRIORITIES.map((priority) => {
+          const { queued, started, totalWaitMs, maxWaitMs } = this.counters[priority];
+          return [priority, { queued, started, averageWaitMs: started ? totalWaitMs / started : 0, maxWaitMs }];
+        }),
+      ) as Record<RequestPriority, PriorityQueueStats>,
+    };
+  }
+
+  private async waitForReset(): Promise<void> {
+    if (this.remaining !== 0 || !this.resetAt) return;
+
+    const delay = this.resetAt.getTime() - Date.now();
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    this.remaining = undefined;
+    this.resetAt = undefined;
+  }
+}
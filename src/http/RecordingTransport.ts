@@ -0,0 +1,90 @@
+import { promises as fs } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { TransportError } from '../errors.js';
+import {
+  cassetteFormatFor,
+  createCassetteEntry,
+  writeCassette,
+  type CassetteEntry,
+  type CassetteFormat,
+} from './Cassette.js';
+import type { Transport, TransportRequest, TransportResponse } from './Transport.js';
+
+export interface RecordingTransportOptions {
+  /** File to write. Replaced when the first exchange is recorded. */
+  cassette: string;
+  /** Defaults to `har` for `.har` files and `jsonl` otherwise. */
+  format?: CassetteFormat;
+}
+
+/**
+ * Wraps another {@link Transport} and writes every exchange to a cassette, with secrets redacted.
+ *
+ * JSONL cassettes are appended to as requests complete; HAR cassettes are rewritten each time.
+ * Call {@link flush} before reading the file.
+ */
+export class RecordingTransport implements Transport {
+  private readonly inner: Transport;
+  private readonly file: string;
+  private readonly format: CassetteFormat;
+  private readonly entries: CassetteEntry[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private writeError?: unknown;
+
+  constructor(inner: Transport, options: RecordingTransportOptions) {
+    this.inner = inner;
+    this.file = resolve(options.cassette);
+    this.format = options.format ?? cassetteFormatFor(options.cassette);
+  }
+
+  /**
+   * Every exchange recorded so far, in order.
+   */
+  get recorded(): readonly CassetteEntry[] {
+    return this.entries;
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.inner.request<T>(request);
+      this.record(createCassetteEntry(request, { response }, startedAt));
+      return response;
+    } catch (error) {
+      const code = error instanceof TransportError ? error.code : undefined;
+      this.record(createCassetteEntry(request, { error: { message: (error as Error).message, code } }, startedAt));
+      throw error;
+    }
+  }
+
+  /**
+   * Waits for pending writes.
+   * @throws The first error hit while writing the cassette
+   */
+  async flush(): Promise<void> {
+    await this.writing;
+    if (this.writeError) {
+      throw this.writeError;
+    }
+  }
+
+  private record(entry: CassetteEntry): void {
+    this.entries.push(entry);
+    const first = this.entries.length === 1;
+    this.writing = this.writing
+      .then(async () => {
+        if (this.format === 'har') {
+          await writeCassette(this.file, this.entries, 'har');
+          return;
+        }
+        if (first) {
+          await fs.mkdir(dirname(this.file), { recursive: true });
+          await fs.writeFile(this.file, '', 'utf-8');
+        }
+        await fs.appendFile(this.file, `${JSON.stringify(entry)}\n`, 'utf-8');
+      })
+      .catch((error) => {
+        this.writeError ??= error;
+      });
+  }
+}
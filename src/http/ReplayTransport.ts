@@ -0,0 +1,80 @@
+import { TransportError } from '../errors.js';
+import type { RequestParams } from '../types/index.js';
+import { redact, redactString } from '../utils/redact.js';
+import { readCassette, type CassetteEntry } from './Cassette.js';
+import type { Transport, TransportRequest, TransportResponse } from './Transport.js';
+
+/**
+ * `strict` matches method, path and every query parameter. `loose` matches method and path only.
+ */
+export type ReplayMatch = 'strict' | 'loose';
+
+export interface ReplayTransportOptions {
+  /** A cassette file written by {@link RecordingTransport}, or its entries. */
+  cassette: string | CassetteEntry[];
+  /** Defaults to `strict`. */
+  match?: ReplayMatch;
+}
+
+/**
+ * Serves responses from a recorded cassette instead of the network.
+ *
+ * Matching entries are replayed in the order they were recorded. In `loose` mode the last
+ * match is repeated once they run out; in `strict` mode an unmatched request fails with a
+ * {@link TransportError} whose code is `ERR_NO_RECORDING`.
+ */
+export class ReplayTransport implements Transport {
+  private readonly source: string | CassetteEntry[];
+  private readonly match: ReplayMatch;
+  private entries?: Promise<CassetteEntry[]>;
+  private readonly used = new Set<CassetteEntry>();
+
+  constructor(options: ReplayTransportOptions) {
+    this.source = options.cassette;
+    this.match = options.match ?? 'strict';
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    if (request.signal?.aborted) {
+      throw new TransportError('Request aborted', { code: 'ERR_CANCELED', cause: request.signal.reason });
+    }
+
+    this.entries ??= typeof this.source === 'string' ? readCassette(this.source) : Promise.resolve(this.source);
+    const key = this.keyFor(request.method, request.url, request.params);
+    const candidates = (await this.entries).filter(
+      (entry) => this.keyFor(entry.request.method, entry.request.url, entry.request.params) === key,
+    );
+
+    const entry = candidates.find((candidate) => !this.used.has(candidate)) ?? (this.match === 'loose' ? candidates.at(-1) : undefined);
+    if (!entry) {
+      throw new TransportError(`No recorded response for ${request.method} ${redactString(request.url)}`, {
+        code: 'ERR_NO_RECORDING',
+      });
+    }
+    this.used.add(entry);
+
+    if (!entry.response) {
+      throw new TransportError(entry.error?.message ?? 'Recorded request failed', { code: entry.error?.code });
+    }
+
+    const { status, headers, data } = entry.response;
+    return { status, headers: { ...headers }, data: structuredClone(data) as T };
+  }
+
+  /**
+   * Builds the matching key. Secrets are redacted first, since the cassette only has redacted values.
+   */
+  private keyFor(method: string, url: string, params?: RequestParams): string {
+    const [path, query] = redactString(url).split('?', 2);
+    if (this.match === 'loose') {
+      return `${method} ${path}`;
+    }
+
+    const merged = { ...Object.fromEntries(new URLSearchParams(query ?? '')), ...(redact(params ?? {}) as RequestParams) };
+    const sorted = Object.entries(merged)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => [name, String(value)])
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `${method} ${path} ${JSON.stringify(sorted)}`;
+  }
+}
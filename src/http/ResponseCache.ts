@@ -0,0 +1,181 @@
+import { LRUCache } from 'lru-cache';
+import type { RequestOptions } from '../types/index.js';
+import type { HttpMiddleware } from './middleware.js';
+import { getHeader, isSuccessStatus, type TransportHeaders, type TransportResponse } from './Transport.js';
+
+export interface CachedResponse {
+  status: number;
+  headers: TransportHeaders;
+  data: unknown;
+  etag?: string;
+  lastModified?: string;
+  /** Epoch milliseconds until which the entry is served without asking the server. */
+  freshUntil: number;
+}
+
+/**
+ * Storage backend for the response cache. Methods may be synchronous or return promises,
+ * so a Redis or file-backed store can be dropped in.
+ */
+export interface ResponseCacheStore {
+  get(key: string): CachedResponse | undefined | Promise<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface CacheRule {
+  /** Endpoint prefix, pattern or predicate the rule applies to. */
+  match: string | RegExp | ((endpoint: string) => boolean);
+  /** How long a response is served without revalidation. `0` always revalidates. */
+  ttlMs: number;
+  /** Never cache matching endpoints. */
+  noStore?: boolean;
+}
+
+export interface ResponseCacheOptions {
+  store?: ResponseCacheStore;
+  /** First matching rule wins. */
+  rules?: CacheRule[];
+  /** TTL for endpoints without a rule. Defaults to `0`, so every hit is revalidated. */
+  defaultTtlMs?: number;
+  /** Prepended to every key, for stores shared between clients. */
+  keyPrefix?: string;
+}
+
+/**
+ * In-memory store with least-recently-used eviction.
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private readonly entries: LRUCache<string, CachedResponse>;
+
+  constructor(max = 500) {
+    this.entries = new LRUCache<string, CachedResponse>({ max });
+  }
+
+  get(key: string): CachedResponse | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: CachedResponse): void {
+    this.entries.set(key, value);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * HTTP response cache for GET requests.
+ *
+ * Fresh entries are returned before a request is queued. Stale entries are revalidated with
+ * `If-None-Match` / `If-Modified-Since`, and a `304 Not Modified` is answered from the cache.
+ */
+export class ResponseCache {
+  private readonly store: ResponseCacheStore;
+  private readonly rules: CacheRule[];
+  private readonly defaultTtlMs: number;
+  private readonly keyPrefix: string;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryResponseCacheStore();
+    this.rules = options.rules ?? [];
+    this.defaultTtlMs = options.defaultTtlMs ?? 0;
+    this.keyPrefix = options.keyPrefix ?? '';
+  }
+
+  /**
+   * Returns a cached response that is still within its TTL, if there is one.
+   */
+  async getFresh(request: Pick<RequestOptions, 'endpoint' | 'params'>): Promise<TransportResponse | undefined> {
+    if (this.ruleFor(request.endpoint)?.noStore) return undefined;
+    const entry = await this.store.get(this.key(request));
+    if (!entry || entry.freshUntil <= Date.now()) return undefined;
+    return { status: entry.status, headers: entry.headers, data: entry.data };
+  }
+
+  /**
+   * Removes the cached response for an endpoint.
+   */
+  async invalidate(endpoint: string, params?: RequestOptions['params']): Promise<void> {
+    await this.store.delete(this.key({ endpoint, params }));
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Adds validators to outgoing GETs, serves 304s from the cache and stores new responses.
+   * Successful writes invalidate the cached GET for the same endpoint.
+   */
+  readonly middleware: HttpMiddleware = async (ctx, next) => {
+    const { method, endpoint, params } = ctx.request;
+    const rule = this.ruleFor(endpoint);
+
+    if (method !== 'GET') {
+      const response = await next();
+      if (isSuccessStatus(response.status)) {
+        await this.invalidate(endpoint);
+      }
+      return response;
+    }
+
+    if (rule?.noStore) {
+      return next();
+    }
+
+    const key = this.key({ endpoint, params });
+    const cached = await this.store.get(key);
+    if (cached?.etag) ctx.request.headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) ctx.request.headers['If-Modified-Since'] = cached.lastModified;
+
+    const response = await next();
+    const ttlMs = rule?.ttlMs ?? this.defaultTtlMs;
+
+    if (response.status === 304 && cached) {
+      await this.store.set(key, { ...cached, freshUntil: Date.now() + ttlMs });
+      return { status: cached.status, headers: { ...cached.headers, ...response.headers }, data: cached.data };
+    }
+
+    if (response.status === 200) {
+      const etag = getHeader(response.headers, 'etag');
+      const lastModified = getHeader(response.headers, 'last-modified');
+      if (etag || lastModified || ttlMs > 0) {
+        await this.store.set(key, {
+          status: response.status,
+          headers: response.headers,
+          data: response.data,
+          etag,
+          lastModified,
+          freshUntil: Date.now() + ttlMs,
+        });
+      }
+    }
+
+    return response;
+  };
+
+  private ruleFor(endpoint: string): CacheRule | undefined {
+    const path = endpoint.split('?')[0];
+    return this.rules.find(({ match }) => {
+      if (typeof match === 'string') return path.startsWith(match);
+      if (match instanceof RegExp) return match.test(path);
+      return match(path);
+    });
+  }
+
+  private key({ endpoint, params }: Pick<RequestOptions, 'endpoint' | 'params'>): string {
+    const query = Object.entries(params ?? {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}=${String(value)}`)
+      .join('&');
+    return `${this.keyPrefix}GET ${endpoint}${query ? `${endpoint.includes('?') ? '&' : '?'}${query}` : ''}`;
+  }
+}
@@ -0,0 +1,50 @@
+import type { RequestParams } from '../types/index.js';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export type TransportHeaders = Record<string, string | string[] | undefined>;
+
+export interface TransportRequest {
+  method: HttpMethod;
+  /** Path relative to the API base URL, e.g. `/v1/thread`. May carry its own query string. */
+  url: string;
+  params?: RequestParams;
+  data?: unknown;
+  headers: Record<string, string>;
+  /** Aborts the request. Transports reject with a `TransportError` once it fires. */
+  signal?: AbortSignal;
+  /** Overrides the transport's default timeout. */
+  timeoutMs?: number;
+}
+
+export interface TransportResponse<T = unknown> {
+  status: number;
+  /** Response headers with lower-cased names. */
+  headers: TransportHeaders;
+  data: T;
+}
+
+/**
+ * The wire layer used by {@link HttpClient} and {@link AuthManager}.
+ *
+ * Implementations resolve with the response for every HTTP status, including 4xx and 5xx,
+ * and reject with a {@link TransportError} only when no response was received at all.
+ */
+export interface Transport {
+  request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+export const isSuccessStatus = (status: number): boolean => status >= 200 && status < 300;
+
+/**
+ * Reads a single header value regardless of the casing used by the transport.
+ */
+export const getHeader = (headers: TransportHeaders, name: string): string | undefined => {
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lower) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+};
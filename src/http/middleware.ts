@@ -0,0 +1,184 @@
+import {
+  APIError,
+  AuthenticationError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  TransportError,
+  UnprocessableEntityError,
+} from '../errors.js';
+import type { RequestOptions } from '../types/index.js';
+import { sleep } from '../utils/abort.js';
+import { parseRetryAfter, type RateLimitBucketName } from './RateLimitBucket.js';
+import { getHeader, isSuccessStatus, type HttpMethod, type TransportResponse } from './Transport.js';
+
+export interface HttpContext {
+  /** The request as it will be sent. Middleware may rewrite any field before calling `next()`. */
+  request: RequestOptions & { method: HttpMethod; headers: Record<string, string> };
+  bucket: RateLimitBucketName;
+  /** Zero for the first attempt, incremented by the retry middleware. */
+  attempt: number;
+  /** Scratch space for passing data between middleware. */
+  state: Record<string, unknown>;
+}
+
+export type HttpNext = () => Promise<TransportResponse>;
+
+/**
+ * A step in the {@link HttpClient} request pipeline.
+ *
+ * Middleware receives the request context and a `next` function that runs the rest of the
+ * chain and resolves with the raw transport response. It may modify `ctx.request`, inspect or
+ * replace the response, catch errors, or return a response without calling `next` at all.
+ */
+export type HttpMiddleware = (ctx: HttpContext, next: HttpNext) => Promise<TransportResponse>;
+
+export interface RetryMiddlewareOptions {
+  maxRetries?: number;
+  /** Base delay for exponential backoff. */
+  baseDelayMs?: number;
+}
+
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set(['GET', 'PUT', 'DELETE']);
+
+const backoffDelay = (attempt: number, baseDelayMs: number): number => {
+  const delay = 2 ** attempt * baseDelayMs;
+  return delay + delay * 0.2 * Math.random();
+};
+
+/**
+ * Retries network failures and idempotent 5xx responses, plus 429 and 503 for any method.
+ * Timeouts are only retried for idempotent methods.
+ * Honours `Retry-After` when the server sends one. Requests sent with `retry: false` are passed through.
+ */
+export const createRetryMiddleware = ({ maxRetries = 3, baseDelayMs = 100 }: RetryMiddlewareOptions = {}): HttpMiddleware =>
+  async (ctx, next) => {
+    if (ctx.request.retry === false) {
+      return next();
+    }
+
+    for (;;) {
+      let response: TransportResponse;
+      try {
+        response = await next();
+      } catch (error) {
+        // A timed-out request may have reached the server, so only repeat it when that is harmless.
+        const retryable =
+          error instanceof TransportError &&
+          (error.code !== 'ECONNABORTED' || IDEMPOTENT_METHODS.has(ctx.request.method));
+        if (!retryable || ctx.attempt >= maxRetries) {
+          throw error;
+        }
+        await sleep(backoffDelay(ctx.attempt, baseDelayMs), ctx.request.signal);
+        ctx.attempt += 1;
+        continue;
+      }
+
+      const { status } = response;
+      const retryable =
+        status === 429 ||
+        status === 503 ||
+        (status >= 500 && IDEMPOTENT_METHODS.has(ctx.request.method));
+      if (!retryable || ctx.attempt >= maxRetries) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(getHeader(response.headers, 'retry-after'));
+      await sleep(retryAfter ?? backoffDelay(ctx.attempt, baseDelayMs), ctx.request.signal);
+      ctx.attempt += 1;
+    }
+  };
+
+const REQUEST_ID_HEADERS = ['x-request-id', 'request-id', 'x-amzn-requestid', 'cf-ray'];
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : typeof value === 'number' ? String(value) : undefined;
+
+/**
+ * Pulls the server's error code and message out of an error response body.
+ * Understands `{ error: 'msg' }`, `{ error: { code, message } }`, `{ code, message }` and `{ errors: [...] }`.
+ */
+export const parseErrorBody = (body: unknown): { code?: string; message?: string; requestId?: string } => {
+  if (typeof body === 'string') {
+    return { message: body.trim() || undefined };
+  }
+  if (!body || typeof body !== 'object') {
+    return {};
+  }
+
+  const record = body as Record<string, unknown>;
+  const nested = record.error && typeof record.error === 'object' ? (record.error as Record<string, unknown>) : undefined;
+  const first = Array.isArray(record.errors) && record.errors[0] && typeof record.errors[0] === 'object'
+    ? (record.errors[0] as Record<string, unknown>)
+    : undefined;
+  const source = nested ?? first ?? record;
+
+  return {
+    code: asString(source.code) ?? asString(source.error_code) ?? asString(record.code) ?? asString(record.error_code),
+    message:
+      asString(source.message) ??
+      asString(source.error_description) ??
+      asString(source.detail) ??
+      (nested ? undefined : asString(record.error)) ??
+      asString(record.message),
+    requestId: asString(record.request_id) ?? asString(record.requestId),
+  };
+};
+
+const ERROR_CLASSES: Record<number, [typeof APIError, string]> = {
+  400: [BadRequestError, 'Bad request'],
+  403: [PermissionError, 'Forbidden - insufficient permissions'],
+  404: [NotFoundError, 'Resource not found'],
+  409: [ConflictError, 'Conflict with the current state of the resource'],
+  422: [UnprocessableEntityError, 'Request could not be processed'],
+};
+
+/**
+ * Turns non-2xx responses into the library's error classes, carrying the request method,
+ * endpoint, request id and the server's error code and message.
+ */
+export const createErrorMappingMiddleware = (): HttpMiddleware => async (ctx, next) => {
+  const response = await next();
+  if (isSuccessStatus(response.status)) {
+    return response;
+  }
+
+  const { status } = response;
+  const body = parseErrorBody(response.data);
+  const requestId = REQUEST_ID_HEADERS.map((name) => getHeader(response.headers, name)).find(Boolean) ?? body.requestId;
+  const options = {
+    statusCode: status,
+    response: response.data,
+    method: ctx.request.method,
+    endpoint: ctx.request.endpoint,
+    requestId,
+    errorCode: body.code,
+  };
+  const describe = (fallback: string) => (body.message ? `${fallback}: ${body.message}` : fallback);
+
+  if (status === 401) {
+    throw new AuthenticationError(describe('Unauthorized - invalid or expired session'), options);
+  }
+
+  if (status === 429) {
+    // `RateLimitError.retryAfter` is in seconds; the header may be seconds or an HTTP date.
+    const retryAfterMs = parseRetryAfter(getHeader(response.headers, 'retry-after'));
+    const retryAfter = retryAfterMs === undefined ? undefined : retryAfterMs / 1000;
+    throw new RateLimitError(describe('Rate limit exceeded'), retryAfter, options);
+  }
+
+  const mapped = ERROR_CLASSES[status];
+  if (mapped) {
+    const [ErrorClass, fallback] = mapped;
+    throw new ErrorClass(describe(fallback), options);
+  }
+
+  if (status >= 500) {
+    throw new ServerError(describe(`Server error ${status}`), options);
+  }
+
+  throw new APIError(describe(`API request failed with status ${status}`), options);
+};
@@ -1,6 +1,12 @@
 // Main Client
 export { InterpalClient } from './client/InterpalClient.js';
 export { AsyncInterpalClient } from './client/AsyncInterpalClient.js';
+export {
+  ClientPool,
+  type AccountStatus,
+  type ClientPoolOptions,
+  type PoolAccount,
+} from './client/ClientPool.js';
 export { Bot } from './ext/commands/index.js';
 
 // Managers (v2 API)
@@ -22,22 +28,149 @@ export { MessageBuilder, type MessagePayload } from './builders/MessageBuilder.j
 // Utilities
 export { Collection } from './util/Collection.js';
 export { Intents, type IntentResolvable } from './util/Intents.js';
+export {
+  ConsoleLogger,
+  RedactingLogger,
+  silentLogger,
+  type LogLevel,
+  type LogMeta,
+  type Logger,
+} from './utils/logger.js';
+export { redact } from './utils/redact.js';
+export {
+  resolveEndpoints,
+  type EndpointOptions,
+  type EndpointProfileName,
+  type ResolvedEndpoints,
+} from './utils/endpoints.js';
+export { detectImageType, type DetectedImageType, type ImageType } from './utils/media.js';
 
 // Legacy API (for backward compatibility)
 export { UserAPI } from './api/UserAPI.js';
 export { MessagesAPI } from './api/MessagesAPI.js';
 export { SearchAPI } from './api/SearchAPI.js';
-export { MediaAPI } from './api/MediaAPI.js';
+export { MediaAPI, type PhotoSource, type UploadPhotoOptions, type UploadProgress } from './api/MediaAPI.js';
 export { SocialAPI } from './api/SocialAPI.js';
 export { RealtimeAPI } from './api/RealtimeAPI.js';
 export { NotificationsAPI } from './api/NotificationsAPI.js';
 export { PostsAPI } from './api/PostsAPI.js';
 
 // Core
-export { AuthManager } from './auth/AuthManager.js';
-export { HttpClient } from './http/HttpClient.js';
+export { AuthManager, type AuthManagerOptions, type LoginOptions, type SessionStatus } from './auth/AuthManager.js';
+export { challengeAnswerFields, parseLoginChallenge } from './auth/challenges.js';
+export {
+  CallbackCredentialProvider,
+  ChainCredentialProvider,
+  EnvCredentialProvider,
+  FileCredentialProvider,
+  parseDotEnv,
+  toCredentialProvider,
+  type CredentialKeys,
+  type CredentialProvider,
+  type CredentialSource,
+} from './auth/credentials.js';
+export { CookieJar, type StoredCookie } from './auth/CookieJar.js';
+export { SessionManager } from './session/SessionManager.js';
+export { FileLock, writeFileAtomic, type FileLockOptions } from './session/FileLock.js';
+export {
+  SessionMonitor,
+  type SessionExpiredEvent,
+  type SessionExpiredReason,
+  type SessionExpiringEvent,
+  type SessionMonitorOptions,
+} from './session/SessionMonitor.js';
+export {
+  BaseSessionStore,
+  EnvSessionStore,
+  FileSessionStore,
+  MemorySessionStore,
+  isSessionExpired,
+  type FileSessionStoreOptions,
+  type SessionEncryptionOptions,
+  type SessionSaveInput,
+  type SessionStore,
+} from './session/SessionStore.js';
+export {
+  decryptSession,
+  encryptSession,
+  isEncryptedEnvelope,
+  type EncryptedSessionEnvelope,
+  type SessionKey,
+} from './session/encryption.js';
+export { HttpClient, type HttpClientOptions } from './http/HttpClient.js';
+export { AxiosTransport, type AxiosTransportOptions } from './http/AxiosTransport.js';
+export {
+  REQUEST_PRIORITIES,
+  RateLimitBucket,
+  defaultBucketResolver,
+  type BucketResolver,
+  type PriorityQueueStats,
+  type RateLimitBucketName,
+  type RateLimitBucketSnapshot,
+  type RateLimitInfo,
+} from './http/RateLimitBucket.js';
+export {
+  createErrorMappingMiddleware,
+  createRetryMiddleware,
+  parseErrorBody,
+  type HttpContext,
+  type HttpMiddleware,
+  type HttpNext,
+  type RetryMiddlewareOptions,
+} from './http/middleware.js';
+export {
+  MockTransport,
+  type MockCall,
+  type MockHandler,
+  type MockRequest,
+  type MockResponse,
+} from './http/MockTransport.js';
+export {
+  MemoryResponseCacheStore,
+  ResponseCache,
+  type CacheRule,
+  type CachedResponse,
+  type ResponseCacheOptions,
+  type ResponseCacheStore,
+} from './http/ResponseCache.js';
+export {
+  cassetteFormatFor,
+  createCassetteEntry,
+  fromHar,
+  readCassette,
+  toHar,
+  writeCassette,
+  type CassetteEntry,
+  type CassetteFormat,
+} from './http/Cassette.js';
+export { RecordingTransport, type RecordingTransportOptions } from './http/RecordingTransport.js';
+export { ReplayTransport, type ReplayMatch, type ReplayTransportOptions } from './http/ReplayTransport.js';
+export {
+  MessageOutbox,
+  isRetryableSendError,
+  type MessageOutboxOptions,
+  type OutboxDeliver,
+} from './outbox/MessageOutbox.js';
+export {
+  FileOutboxStore,
+  MemoryOutboxStore,
+  type OutboxEntry,
+  type OutboxStore,
+} from './outbox/OutboxStore.js';
+export type {
+  HttpMethod,
+  Transport,
+  TransportHeaders,
+  TransportRequest,
+  TransportResponse,
+} from './http/Transport.js';
 export { InterpalState } from './state/InterpalState.js';
-export { WebSocketClient } from './websocket/WebSocketClient.js';
+export {
+  WebSocketClient,
+  type ReconnectFailedEvent,
+  type ReconnectingEvent,
+  type WebSocketConfig,
+} from './websocket/WebSocketClient.js';
 
 // Events
 export {
@@ -1,13 +1,26 @@
+import { randomUUID } from 'node:crypto';
+import { LRUCache } from 'lru-cache';
 import { BaseManager } from './BaseManager.js';
 import { Message, type MessageData } from '../models/Message.js';
 import type { InterpalClient } from '../client/InterpalClient.js';
-import type { RequestParams } from '../types/index.js';
+import type { CallOptions, RequestParams } from '../types/index.js';
 import { MessageBuilder, type MessagePayload } from '../builders/MessageBuilder.js';
+import { RateLimitError, ServerError, TransportError } from '../errors.js';
+import { sleep } from '../utils/abort.js';
+
+/** Attempts per send before the error is passed to the caller. */
+const SEND_ATTEMPTS = 3;
+const SEND_RETRY_DELAY_MS = 500;
+/** How many recent messages to re-fetch when checking whether a send went through. */
+const SEND_VERIFY_LIMIT = 20;
 
 /**
  * Manages message data and operations.
  */
 export class MessageManager extends BaseManager<string, Message> {
+  /** Messages the gateway echoed back, by `tmp_id`. */
+  private readonly echoes = new LRUCache<string, Message>({ max: 500 });
+
   constructor(client: InterpalClient) {
     super(client);
   }
@@ -16,12 +29,21 @@ export class MessageManager extends BaseManager<string, Message> {
    * Fetches messages from a thread.
    * @param threadId The ID of the thread
    * @param options Fetch options
+   * @param callOptions Optional `signal` and `timeoutMs`
    * @returns Array of messages
    */
-  async fetchThreadMessages(threadId: string, options: RequestParams & { cache?: boolean } = {}): Promise<Message[]> {
+  async fetchThreadMessages(
+    threadId: string,
+    options: RequestParams & { cache?: boolean } = {},
+    callOptions: CallOptions = {},
+  ): Promise<Message[]> {
     const { cache = true, ...params } = options;
 
-    const data = await this.http.get<MessageData[] | { messages?: MessageData[] }>(`/v1/thread/${threadId}`, params);
+    const data = await this.http.get<MessageData[] | { messages?: MessageData[] }>(
+      `/v1/thread/${threadId}`,
+      params,
+      callOptions,
+    );
     
     let messageDataArray: MessageData[];
     if (Array.isArray(data)) {
@@ -40,9 +62,15 @@ export class MessageManager extends BaseManager<string, Message> {
    * @param threadId The ID of the thread
    * @param content The message content, a message builder, or a message payload
    * @param extra Additional payload data (only used if content is a string)
-   * @returns The sent message
+   * @param options Optional `signal`, `timeoutMs` and `priority` (defaults to `high`)
+   * @returns The sent message. With the outbox enabled, resolves once the message has been delivered.
    */
-  async send(threadId: string, content: string | MessageBuilder | MessagePayload, extra: Record<string, unknown> = {}): Promise<Message> {
+  async send(
+    threadId: string,
+    content: string | MessageBuilder | MessagePayload,
+    extra: Record<string, unknown> = {},
+    options: CallOptions = {},
+  ): Promise<Message> {
     let payload: MessagePayload;
 
     if (typeof content === 'string') {
@@ -65,28 +93,73 @@ export class MessageManager extends BaseManager<string, Message> {
       }
     }
 
-    const data = await this.http.post<MessageData>('/v1/message', payload);
-    const message = this._createOrUpdate(data);
+    const tagged = { ...payload, tmp_id: payload.tmp_id ?? randomUUID() };
+    const callOptions: CallOptions = { priority: 'high', ...options };
+    const { outbox } = this.client;
+    if (outbox) {
+      return outbox.enqueue(threadId, tagged, callOptions);
+    }
 
-    // Emit messageCreate event
-    this.client.emit('messageCreate', message);
+    return this._post(tagged, callOptions);
+  }
 
-    return message;
+  /**
+   * Posts a message payload and emits `messageCreate` for the result.
+   *
+   * Failed attempts are retried. Before re-posting after an error that leaves the outcome
+   * unknown, the gateway echo and the thread itself are checked for the payload's `tmp_id`,
+   * so a message that did reach the server is not sent twice.
+   * @param payload The message payload, including its `tmp_id`
+   * @param options Call options for the request
+   * @param resend Whether the payload may already have been posted by an earlier call
+   * @returns The sent message
+   * @internal
+   */
+  async _post(payload: MessagePayload, options: CallOptions = {}, resend = false): Promise<Message> {
+    let uncertain = resend;
+
+    for (let attempt = 1; ; attempt += 1) {
+      if (uncertain) {
+        const delivered = await this.findDelivered(payload, options);
+        if (delivered) return delivered;
+      }
+
+      try {
+        const data = await this.http.post<MessageData>('/v1/message', payload, undefined, { ...options, retry: false });
+        const message = this._createOrUpdate(data);
+
+        // Emit messageCreate event
+        this.client.emit('messageCreate', message);
+
+        return message;
+      } catch (error) {
+        const rateLimited = error instanceof RateLimitError;
+        if (attempt >= SEND_ATTEMPTS || !(rateLimited || error instanceof TransportError || error instanceof ServerError)) {
+          throw error;
+        }
+
+        // A 429 means the message was rejected; anything else may have been delivered.
+        uncertain ||= !rateLimited;
+        const retryAfterMs = rateLimited && Number.isFinite(error.retryAfter) ? (error.retryAfter as number) * 1000 : 0;
+        await sleep(Math.max(retryAfterMs, SEND_RETRY_DELAY_MS * 2 ** (attempt - 1)), options.signal);
+      }
+    }
   }
 
   /**
    * Sends a GIF message to a thread.
    * @param threadId The ID of the thread
    * @param gifUrl The URL of the GIF
-   * @param tmpId Temporary ID for the message
+   * @param tmpId Temporary ID for the message. Generated when omitted.
+   * @param options Optional `signal`, `timeoutMs` and `priority` (defaults to `high`)
    * @returns The sent message
    */
-  async sendGif(threadId: string, gifUrl: string, tmpId = 'tmp'): Promise<Message> {
+  async sendGif(threadId: string, gifUrl: string, tmpId?: string, options: CallOptions = {}): Promise<Message> {
     return this.send(threadId, '', {
       attachment_type: 'gif',
       gif_attachment_url: gifUrl,
-      tmp_id: tmpId,
-    });
+      tmp_id: tmpId ?? randomUUID(),
+    }, options);
   }
 
   /**
@@ -94,32 +167,34 @@ export class MessageManager extends BaseManager<string, Message> {
    * @param threadId The ID of the thread
    * @param content The corrected message content
    * @param attachmentId The ID of the attachment to correct
-   * @param tmpId Optional temporary ID
+   * @param tmpId Temporary ID for the correction. Generated when omitted.
+   * @param options Optional `signal` and `timeoutMs`
    * @returns The sent correction message
    */
-  async sendCorrection(threadId: string, content: string, attachmentId: string, tmpId?: string): Promise<Message> {
-    const payload: Record<string, unknown> = {
+  async sendCorrection(
+    threadId: string,
+    content: string,
+    attachmentId: string,
+    tmpId?: string,
+    options: CallOptions = {},
+  ): Promise<Message> {
+    return this._post({
       thread_id: threadId,
       message: content,
       attachment_type: 'correction',
       attachment_id: attachmentId,
-    };
-
-    if (tmpId) {
-      payload.tmp_id = tmpId;
-    }
-
-    const data = await this.http.post<MessageData>('/v1/message', payload);
-    return this._createOrUpdate(data);
+      tmp_id: tmpId ?? randomUUID(),
+    }, options);
   }
 
   /**
    * Deletes a message.
    * @param messageId The ID of the message to delete
    * @param threadId Optional thread ID
+   * @param options Optional `signal` and `timeoutMs`
    */
-  async delete(messageId: string, threadId?: string): Promise<void> {
-    await this.http.delete(`/v1/message/${messageId}${threadId ? `?thread_id=${threadId}` : ''}`);
+  async delete(messageId: string, threadId?: string, options: CallOptions = {}): Promise<void> {
+    await this.http.delete(`/v1/message/${messageId}${threadId ? `?thread_id=${threadId}` : ''}`, options);
     
     // Remove from cache
     this._remove(messageId);
@@ -132,18 +207,25 @@ export class MessageManager extends BaseManager<string, Message> {
    * Marks a message as read.
    * @param threadId The ID of the thread
    * @param messageId The ID of the message
+   * @param options Optional `signal` and `timeoutMs`
    */
-  async markAsRead(threadId: string, messageId: string): Promise<void> {
-    await this.http.put(`/v1/thread/${threadId}/viewed`, { message_id: messageId });
+  async markAsRead(threadId: string, messageId: string, options: CallOptions = {}): Promise<void> {
+    await this.http.put(`/v1/thread/${threadId}/viewed`, { message_id: messageId }, options);
   }
 
   /**
    * Sets typing indicator for a thread.
    * @param threadId The ID of the thread
    * @param typing Whether the user is typing
+   * @param options Optional `signal`, `timeoutMs` and `priority` (defaults to `high`)
    */
-  async setTyping(threadId: string, typing = true): Promise<void> {
-    await this.http.post('/v1/thread/typing', { thread_id: threadId, typing });
+  async setTyping(threadId: string, typing = true, options: CallOptions = {}): Promise<void> {
+    await this.http.post(
+      '/v1/thread/typing',
+      { thread_id: threadId, typing },
+      undefined,
+      { priority: 'high', ...options },
+    );
   }
 
   /**
@@ -177,5 +259,38 @@ export class MessageManager extends BaseManager<string, Message> {
   _handleMessageCreate(data: MessageData): Message {
     return this._createOrUpdate(data);
   }
+
+  /**
+   * Records a gateway echo of a message this client sent.
+   * @param tmpId The `tmp_id` carried by the echo
+   * @param message The echoed message
+   * @internal
+   */
+  _handleEcho(tmpId: string, message: Message): void {
+    message.tmpId ??= tmpId;
+    this.echoes.set(tmpId, message);
+  }
+
+  /**
+   * Looks for a message with the payload's `tmp_id`, first among gateway echoes and then in
+   * the thread's most recent messages, fetched fresh rather than from the cache or a shared request.
+   */
+  private async findDelivered(payload: MessagePayload, options: CallOptions): Promise<Message | undefined> {
+    const { tmp_id: tmpId, thread_id: threadId } = payload;
+    if (!tmpId) return undefined;
+
+    const echoed = this.echoes.get(tmpId);
+    if (echoed || !threadId) return echoed;
+
+    const params = { limit: SEND_VERIFY_LIMIT };
+    await this.http.cache?.invalidate(`/v1/thread/${threadId}`, params);
+    // A fetch already in flight may have started before the post reached the server.
+    const messages = await this.fetchThreadMessages(threadId, params, {
+      signal: options.signal,
+      priority: 'high',
+      dedupe: false,
+    });
+    return messages.find((message) => message.tmpId === tmpId) ?? this.echoes.get(tmpId);
+  }
 }
 
@@ -1,5 +1,6 @@
 import { BaseManager } from './BaseManager.js';
 import type { InterpalClient } from '../client/InterpalClient.js';
+import type { CallOptions } from '../types/index.js';
 
 export interface Notification {
   id?: string;
@@ -16,36 +17,39 @@ export class NotificationManager extends BaseManager<string, Notification> {
 
   /**
    * Fetches notifications.
-   * @param options Fetch options
+   * @param options Fetch options, plus an optional `signal` and `timeoutMs`
    * @returns Array of notifications
    */
-  async fetch(options: { limit?: number; offset?: number } = {}): Promise<Notification[]> {
-    const { limit = 20, offset = 0 } = options;
-    const data = await this.http.get<Notification[]>('/v1/notification', { limit, offset });
+  async fetch(options: { limit?: number; offset?: number } & CallOptions = {}): Promise<Notification[]> {
+    const { limit = 20, offset = 0, ...callOptions } = options;
+    const data = await this.http.get<Notification[]>('/v1/notification', { limit, offset }, callOptions);
     return Array.isArray(data) ? data : [];
   }
 
   /**
    * Marks a notification as read.
    * @param notificationId The ID of the notification
+   * @param options Optional `signal` and `timeoutMs`
    */
-  async markAsRead(notificationId: string): Promise<void> {
-    await this.http.put(`/v1/notification/${notificationId}/read`);
+  async markAsRead(notificationId: string, options: CallOptions = {}): Promise<void> {
+    await this.http.put(`/v1/notification/${notificationId}/read`, undefined, options);
   }
 
   /**
    * Marks all notifications as read.
+   * @param options Optional `signal` and `timeoutMs`
    */
-  async markAllAsRead(): Promise<void> {
-    await this.http.put('/v1/notification/read/all');
+  async markAllAsRead(options: CallOptions = {}): Promise<void> {
+    await this.http.put('/v1/notification/read/all', undefined, options);
   }
 
   /**
    * Deletes a notification.
    * @param notificationId The ID of the notification
+   * @param options Optional `signal` and `timeoutMs`
    */
-  async delete(notificationId: string): Promise<void> {
-    await this.http.delete(`/v1/notification/${notificationId}`);
+  async delete(notificationId: string, options: CallOptions = {}): Promise<void> {
+    await this.http.delete(`/v1/notification/${notificationId}`, options);
     this._remove(notificationId);
   }
 }
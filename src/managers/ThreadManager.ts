@@ -1,6 +1,7 @@
 import { BaseManager } from './BaseManager.js';
 import { Thread, type ThreadData } from '../models/Thread.js';
 import type { InterpalClient } from '../client/InterpalClient.js';
+import type { CallOptions } from '../types/index.js';
 
 /**
  * Manages thread (conversation) data and operations.
@@ -13,11 +14,11 @@ export class ThreadManager extends BaseManager<string, Thread> {
   /**
    * Fetches a thread by ID from the API.
    * @param id The ID of the thread
-   * @param options Fetch options
+   * @param options Fetch options, plus an optional `signal` and `timeoutMs`
    * @returns The fetched thread
    */
-  async fetch(id: string, options: { force?: boolean; cache?: boolean } = {}): Promise<Thread> {
-    const { force = false, cache = true } = options;
+  async fetch(id: string, options: { force?: boolean; cache?: boolean } & CallOptions = {}): Promise<Thread> {
+    const { force = false, cache = true, ...callOptions } = options;
 
     if (!force && this.cache.has(id)) {
       return this.cache.get(id)!;
@@ -25,7 +26,7 @@ export class ThreadManager extends BaseManager<string, Thread> {
 
     // Note: The API might not have a direct endpoint for fetching a single thread by ID
     // You may need to adjust this based on the actual API
-    const data = await this.http.get<ThreadData>(`/v1/thread/${id}`);
+    const data = await this.http.get<ThreadData>(`/v1/thread/${id}`, undefined, callOptions);
     const thread = new Thread(this.client, data);
 
     if (cache && thread.id) {
@@ -37,13 +38,15 @@ export class ThreadManager extends BaseManager<string, Thread> {
 
   /**
    * Fetches all threads for the current user.
-   * @param options Fetch options
+   * @param options Fetch options, plus an optional `signal` and `timeoutMs`
    * @returns Array of threads
    */
-  async fetchAll(options: { limit?: number; offset?: number; force?: boolean; cache?: boolean } = {}): Promise<Thread[]> {
-    const { limit = 50, offset = 0, cache = true } = options;
+  async fetchAll(
+    options: { limit?: number; offset?: number; force?: boolean; cache?: boolean } & CallOptions = {},
+  ): Promise<Thread[]> {
+    const { limit = 50, offset = 0, force: _force, cache = true, ...callOptions } = options;
 
-    const data = await this.http.get<ThreadData[] | { threads?: ThreadData[] }>('/v1/thread', { limit, offset });
+    const data = await this.http.get<ThreadData[] | { threads?: ThreadData[] }>('/v1/thread', { limit, offset }, callOptions);
     
     let threadDataArray: ThreadData[];
     if (Array.isArray(data)) {
@@ -60,11 +63,14 @@ export class ThreadManager extends BaseManager<string, Thread> {
   /**
    * Fetches or creates a thread with a specific user.
    * @param userId The ID of the user
-   * @param options Fetch options
+   * @param options Fetch options, plus an optional `signal` and `timeoutMs`
    * @returns The thread with the user
    */
-  async fetchUserThread(userId: string, options: { includeRelation?: boolean; force?: boolean; cache?: boolean } = {}): Promise<Thread> {
-    const { includeRelation = false, force = false, cache = true } = options;
+  async fetchUserThread(
+    userId: string,
+    options: { includeRelation?: boolean; force?: boolean; cache?: boolean } & CallOptions = {},
+  ): Promise<Thread> {
+    const { includeRelation = false, force = false, cache = true, ...callOptions } = options;
 
     // Check cache first if not forcing
     if (!force) {
@@ -76,7 +82,11 @@ export class ThreadManager extends BaseManager<string, Thread> {
       if (cached) return cached;
     }
 
-    const data = await this.http.get<ThreadData>(`/v1/thread/user/${userId}`, { include_relation: includeRelation });
+    const data = await this.http.get<ThreadData>(
+      `/v1/thread/user/${userId}`,
+      { include_relation: includeRelation },
+      callOptions,
+    );
     const thread = new Thread(this.client, data);
 
     if (cache && thread.id) {
@@ -1,7 +1,7 @@
 import { BaseManager } from './BaseManager.js';
 import { User, type UserData } from '../models/User.js';
 import type { InterpalClient } from '../client/InterpalClient.js';
-import type { RequestParams } from '../types/index.js';
+import type { CallOptions, RequestParams } from '../types/index.js';
 
 /**
  * Manages user-related data and operations.
@@ -14,11 +14,11 @@ export class UserManager extends BaseManager<string, User> {
   /**
    * Fetches a user from the API.
    * @param id The ID of the user to fetch
-   * @param options Fetch options
+   * @param options Fetch options, plus an optional `signal` and `timeoutMs`
    * @returns The fetched user
    */
-  async fetch(id: string, options: { force?: boolean; cache?: boolean } = {}): Promise<User> {
-    const { force = false, cache = true } = options;
+  async fetch(id: string, options: { force?: boolean; cache?: boolean } & CallOptions = {}): Promise<User> {
+    const { force = false, cache = true, ...callOptions } = options;
 
     // Return from cache if available and not forcing
     if (!force && this.cache.has(id)) {
@@ -26,7 +26,7 @@ export class UserManager extends BaseManager<string, User> {
     }
 
     // Fetch from API
-    const data = await this.http.get<UserData>(`/v1/profile/${id}`);
+    const data = await this.http.get<UserData>(`/v1/profile/${id}`, undefined, callOptions);
     const user = new User(this.client, data);
 
     // Add to cache
@@ -39,11 +39,11 @@ export class UserManager extends BaseManager<string, User> {
 
   /**
    * Fetches the current authenticated user.
-   * @param options Fetch options
+   * @param options Fetch options, plus an optional `signal` and `timeoutMs`
    * @returns The current user
    */
-  async fetchSelf(options: { force?: boolean; cache?: boolean } = {}): Promise<User> {
-    const { force = false, cache = true } = options;
+  async fetchSelf(options: { force?: boolean; cache?: boolean } & CallOptions = {}): Promise<User> {
+    const { force = false, cache = true, ...callOptions } = options;
 
     // Check if we have a cached self user
     const cachedSelf = this.cache.find((user) => user.isSelf);
@@ -52,7 +52,7 @@ export class UserManager extends BaseManager<string, User> {
     }
 
     // Fetch from API
-    const data = await this.http.get<UserData>('/v1/account/self');
+    const data = await this.http.get<UserData>('/v1/account/self', undefined, callOptions);
     const user = new User(this.client, data);
     user.isSelf = true;
 
@@ -66,10 +66,11 @@ export class UserManager extends BaseManager<string, User> {
   /**
    * Updates the current authenticated user's profile.
    * @param payload The data to update
+   * @param options Optional `signal` and `timeoutMs`
    * @returns The updated user
    */
-  async updateSelf(payload: Record<string, unknown>): Promise<User> {
-    const data = await this.http.put<UserData>('/v1/account/self', payload);
+  async updateSelf(payload: Record<string, unknown>, options: CallOptions = {}): Promise<User> {
+    const data = await this.http.put<UserData>('/v1/account/self', payload, options);
     const user = new User(this.client, data);
     user.isSelf = true;
 
@@ -83,10 +84,11 @@ export class UserManager extends BaseManager<string, User> {
   /**
    * Searches for users based on criteria.
    * @param params Search parameters
+   * @param options Optional `signal` and `timeoutMs`
    * @returns Array of matching users
    */
-  async search(params: RequestParams = {}): Promise<User[]> {
-    const data = await this.http.get<UserData[] | { results?: UserData[] }>('/v1/search/user', params);
+  async search(params: RequestParams = {}, options: CallOptions = {}): Promise<User[]> {
+    const data = await this.http.get<UserData[] | { results?: UserData[] }>('/v1/search/user', params, options);
     
     let results: UserData[];
     if (Array.isArray(data)) {
@@ -10,6 +10,7 @@ export interface MessageData {
   message?: string;
   created?: string | number | Date;
   attachment_type?: string;
+  tmp_id?: string;
   [key: string]: unknown;
 }
 
@@ -20,6 +21,8 @@ export class Message extends Base {
   content?: string;
   createdAt?: Date;
   attachmentType?: string;
+  /** The client-generated `tmp_id` the message was sent with, if the server echoed it. */
+  tmpId?: string;
 
   private _rawData: MessageData;
 
@@ -38,6 +41,7 @@ export class Message extends Base {
     if (data.message !== undefined) this.content = data.message as string | undefined;
     if (data.created !== undefined) this.createdAt = parseTimestamp(data.created);
     if (data.attachment_type !== undefined) this.attachmentType = data.attachment_type as string | undefined;
+    if (data.tmp_id !== undefined && data.tmp_id !== null) this.tmpId = String(data.tmp_id);
 
     return this;
   }
@@ -50,6 +54,7 @@ export class Message extends Base {
       content: this.content,
       createdAt: this.createdAt?.toISOString(),
       attachmentType: this.attachmentType,
+      tmpId: this.tmpId,
     };
   }
 
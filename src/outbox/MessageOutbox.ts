@@ -0,0 +1,277 @@
+import { EventEmitter } from 'node:events';
+import { LRUCache } from 'lru-cache';
+import { RateLimitError, RequestAbortedError, TransportError } from '../errors.js';
+import type { MessagePayload } from '../builders/MessageBuilder.js';
+import type { Message } from '../models/Message.js';
+import type { CallOptions } from '../types/index.js';
+import { toAbortError } from '../utils/abort.js';
+import { createLogger, type Logger } from '../utils/logger.js';
+import { FileOutboxStore, type OutboxEntry, type OutboxStore } from './OutboxStore.js';
+
+export interface MessageOutboxOptions {
+  /** Where pending messages are kept. Defaults to a {@link FileOutboxStore}. */
+  store?: OutboxStore;
+  /** Delivery attempts before a message is given up on. Defaults to 10. */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubled after every failure. Defaults to 1 second. */
+  baseDelayMs?: number;
+  /** Upper bound for the retry delay. Defaults to 5 minutes. */
+  maxDelayMs?: number;
+  logger?: Logger;
+}
+
+export type OutboxDeliver = (entry: OutboxEntry, options: CallOptions) => Promise<Message>;
+
+interface Waiter {
+  resolve(message: Message): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Whether a failed send is worth retrying later: the network was unreachable, the request
+ * timed out, or the server asked us to slow down.
+ */
+export const isRetryableSendError = (error: unknown): boolean =>
+  error instanceof TransportError ||
+  error instanceof RateLimitError ||
+  (error instanceof RequestAbortedError && error.reason === 'timeout');
+
+/**
+ * Holds outgoing messages until the API accepts them.
+ *
+ * Each message is stored before the first attempt, so a crash or restart does not lose it.
+ * Failed sends are retried with exponential backoff. A gateway echo carrying the same
+ * `tmp_id` completes the entry, so a message that reached the server is never posted twice.
+ *
+ * Emits `messageQueued` (entry), `messageSent` (message, entry) and `messageFailed` (error, entry).
+ */
+export class MessageOutbox extends EventEmitter {
+  private readonly deliver: OutboxDeliver;
+  private readonly store: OutboxStore;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly logger: Logger;
+
+  private readonly entries = new Map<string, OutboxEntry>();
+  private readonly callOptions = new Map<string, CallOptions>();
+  private readonly waiters = new Map<string, Waiter[]>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly delivering = new Set<string>();
+  private readonly delivered = new LRUCache<string, true>({ max: 1_000 });
+
+  constructor(deliver: OutboxDeliver, options: MessageOutboxOptions = {}) {
+    super();
+    this.deliver = deliver;
+    this.store = options.store ?? new FileOutboxStore();
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.baseDelayMs = options.baseDelayMs ?? 1_000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60_000;
+    this.logger = createLogger(options.logger);
+  }
+
+  /**
+   * The number of messages waiting to be delivered.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns a copy of every pending entry.
+   */
+  list(): OutboxEntry[] {
+    return Array.from(this.entries.values(), (entry) => ({ ...entry }));
+  }
+
+  /**
+   * Loads entries left over from a previous run and schedules their delivery, along with any
+   * entries whose retries were stopped by {@link close}.
+   */
+  async restore(): Promise<void> {
+    for (const entry of await this.store.list()) {
+      if (!this.entries.has(entry.tmpId)) {
+        this.entries.set(entry.tmpId, entry);
+      }
+    }
+    for (const entry of this.entries.values()) {
+      if (!this.timers.has(entry.tmpId) && !this.delivering.has(entry.tmpId)) {
+        this.schedule(entry);
+      }
+    }
+    if (this.entries.size > 0) {
+      this.logger.info('Restored pending messages', { count: this.entries.size });
+    }
+  }
+
+  /**
+   * Queues a message and resolves once it has been delivered.
+   * @param threadId The thread the message belongs to
+   * @param payload The message payload. Must carry a `tmp_id`.
+   * @param options `signal` cancels the message while it is still pending; `timeoutMs` applies per attempt
+   */
+  async enqueue(
+    threadId: string,
+    payload: MessagePayload & { tmp_id: string },
+    options: CallOptions = {},
+  ): Promise<Message> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw toAbortError(signal);
+    }
+
+    const tmpId = payload.tmp_id;
+    const now = new Date().toISOString();
+    const entry: OutboxEntry = { tmpId, threadId, payload, attempts: 0, createdAt: now, nextAttemptAt: now };
+
+    const result = new Promise<Message>((resolve, reject) => {
+      const waiters = this.waiters.get(tmpId) ?? [];
+      waiters.push({ resolve, reject });
+      this.waiters.set(tmpId, waiters);
+    });
+
+    if (!this.entries.has(tmpId)) {
+      this.entries.set(tmpId, entry);
+      this.callOptions.set(tmpId, options);
+      await this.store.put(entry);
+      this.emit('messageQueued', { ...entry });
+      this.run(tmpId);
+    }
+
+    signal?.addEventListener('abort', () => void this.cancel(tmpId, toAbortError(signal)), { once: true });
+    return result;
+  }
+
+  /**
+   * Marks a pending message as delivered after the gateway echoed it back.
+   * @returns Whether a pending entry matched `tmpId`
+   */
+  async acknowledge(tmpId: string, message: Message): Promise<boolean> {
+    if (!this.entries.has(tmpId)) return false;
+    this.logger.debug('Message confirmed by gateway echo', { tmpId });
+    await this.complete(tmpId, message);
+    return true;
+  }
+
+  /**
+   * Whether a message with this `tmp_id` was recently delivered through the outbox.
+   */
+  wasDelivered(tmpId: string): boolean {
+    return this.delivered.has(tmpId);
+  }
+
+  /**
+   * Drops a pending message without sending it.
+   * @returns Whether a pending entry matched `tmpId`
+   */
+  async cancel(tmpId: string, reason: unknown = new RequestAbortedError('Message cancelled')): Promise<boolean> {
+    if (!this.entries.has(tmpId)) return false;
+    await this.remove(tmpId);
+    this.settle(tmpId, (waiter) => waiter.reject(reason));
+    return true;
+  }
+
+  /**
+   * Drops every pending message without sending it, including ones still in the store from an
+   * earlier run.
+   */
+  async clear(reason: unknown = new RequestAbortedError('Outbox cleared')): Promise<void> {
+    for (const tmpId of [...this.entries.keys()]) {
+      await this.cancel(tmpId, reason);
+    }
+    for (const entry of await this.store.list()) {
+      await this.store.delete(entry.tmpId);
+    }
+  }
+
+  /**
+   * Stops all scheduled retries. Pending entries stay in the store for the next {@link restore}.
+   */
+  close(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private run(tmpId: string): void {
+    this.attempt(tmpId).catch((error) => this.logger.error('Outbox delivery crashed', { tmpId, error }));
+  }
+
+  private schedule(entry: OutboxEntry): void {
+    clearTimeout(this.timers.get(entry.tmpId));
+    const delay = Math.max(0, Date.parse(entry.nextAttemptAt) - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(entry.tmpId);
+      this.run(entry.tmpId);
+    }, Number.isNaN(delay) ? 0 : delay);
+    this.timers.set(entry.tmpId, timer);
+  }
+
+  private async attempt(tmpId: string): Promise<void> {
+    const entry = this.entries.get(tmpId);
+    if (!entry || this.delivering.has(tmpId)) return;
+
+    this.delivering.add(tmpId);
+    entry.attempts += 1;
+    try {
+      // Counted in the store before sending, so after a crash mid-send the restored entry is
+      // known to have possibly reached the server.
+      await this.store.put(entry);
+      const message = await this.deliver({ ...entry }, this.callOptions.get(tmpId) ?? {});
+      if (this.entries.has(tmpId)) {
+        await this.complete(tmpId, message);
+      }
+    } catch (error) {
+      // Cancelled, or confirmed by the gateway while the request was in flight.
+      if (!this.entries.has(tmpId)) return;
+
+      if (!isRetryableSendError(error) || entry.attempts >= this.maxAttempts) {
+        this.logger.warn('Message delivery failed', { tmpId, attempts: entry.attempts, error });
+        await this.remove(tmpId);
+        this.emit('messageFailed', error, { ...entry });
+        this.settle(tmpId, (waiter) => waiter.reject(error));
+        return;
+      }
+
+      const delayMs = this.backoff(entry.attempts, error);
+      entry.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      entry.lastError = error instanceof Error ? error.message : String(error);
+      this.logger.info('Message delivery failed, retrying', { tmpId, attempts: entry.attempts, delayMs });
+      await this.store.put(entry);
+      this.schedule(entry);
+    } finally {
+      this.delivering.delete(tmpId);
+    }
+  }
+
+  private async complete(tmpId: string, message: Message): Promise<void> {
+    const entry = this.entries.get(tmpId);
+    if (!entry) return;
+    this.delivered.set(tmpId, true);
+    await this.remove(tmpId);
+    this.emit('messageSent', message, { ...entry });
+    this.settle(tmpId, (waiter) => waiter.resolve(message));
+  }
+
+  private async remove(tmpId: string): Promise<void> {
+    clearTimeout(this.timers.get(tmpId));
+    this.timers.delete(tmpId);
+    this.entries.delete(tmpId);
+    this.callOptions.delete(tmpId);
+    await this.store.delete(tmpId);
+  }
+
+  private settle(tmpId: string, fn: (waiter: Waiter) => void): void {
+    const waiters = this.waiters.get(tmpId) ?? [];
+    this.waiters.delete(tmpId);
+    waiters.forEach(fn);
+  }
+
+  private backoff(attempts: number, error: unknown): number {
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempts - 1));
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    const retryAfter = error instanceof RateLimitError && Number.isFinite(error.retryAfter)
+      ? (error.retryAfter as number) * 1000
+      : 0;
+    return Math.max(jittered, retryAfter);
+  }
+}
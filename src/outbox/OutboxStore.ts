@@ -0,0 +1,102 @@
+import { promises as fs } from 'node:fs';
+import { resolve } from 'node:path';
+import { DEFAULT_OUTBOX_FILE } from '../constants.js';
+import type { MessagePayload } from '../builders/MessageBuilder.js';
+import { writeFileAtomic } from '../session/FileLock.js';
+
+export interface OutboxEntry {
+  /** The `tmp_id` sent with the message. Unique per entry. */
+  tmpId: string;
+  threadId: string;
+  payload: MessagePayload;
+  /** Delivery attempts started so far. Saved before each send, so it includes one cut short by a crash. */
+  attempts: number;
+  /** ISO timestamp of when the message was queued. */
+  createdAt: string;
+  /** ISO timestamp of the next delivery attempt. */
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+/**
+ * Persists pending outbox entries so they survive a restart.
+ */
+export interface OutboxStore {
+  list(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(tmpId: string): Promise<void>;
+}
+
+export class MemoryOutboxStore implements OutboxStore {
+  private readonly entries = new Map<string, OutboxEntry>();
+
+  async list(): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values(), (entry) => ({ ...entry }));
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.tmpId, { ...entry });
+  }
+
+  async delete(tmpId: string): Promise<void> {
+    this.entries.delete(tmpId);
+  }
+}
+
+/**
+ * Stores the outbox as a JSON file. Writes are serialized so concurrent updates are not lost, and
+ * atomic so a crash mid-write cannot truncate the file.
+ */
+export class FileOutboxStore implements OutboxStore {
+  private readonly file: string;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(file = DEFAULT_OUTBOX_FILE) {
+    this.file = resolve(file);
+  }
+
+  list(): Promise<OutboxEntry[]> {
+    return this.enqueue(() => this.read());
+  }
+
+  put(entry: OutboxEntry): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = (await this.read()).filter((existing) => existing.tmpId !== entry.tmpId);
+      await this.write([...entries, entry]);
+    });
+  }
+
+  delete(tmpId: string): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.read();
+      const remaining = entries.filter((entry) => entry.tmpId !== tmpId);
+      if (remaining.length !== entries.length) {
+        await this.write(remaining);
+      }
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task, task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async read(): Promise<OutboxEntry[]> {
+    try {
+      const raw = await fs.readFile(this.file, 'utf-8');
+      const parsed = JSON.parse(raw) as { entries?: OutboxEntry[] };
+      return Array.isArray(parsed.entries) ? parsed.entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async write(entries: OutboxEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      await fs.unlink(this.file).catch(() => undefined);
+      return;
+    }
+    await writeFileAtomic(this.file, JSON.stringify({ entries }, null, 2));
+  }
+}
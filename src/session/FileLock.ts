@@ -0,0 +1,160 @@
+import { randomBytes } from 'node:crypto';
+import { promises as fs, type Stats } from 'node:fs';
+import { hostname } from 'node:os';
+import { dirname } from 'node:path';
+import { SessionLockError } from '../errors.js';
+import { sleep } from '../utils/abort.js';
+
+export interface FileLockOptions {
+  /** How long to wait for another holder to release the lock. Defaults to 30 seconds. */
+  timeoutMs?: number;
+  /** Age after which a lock that is no longer being refreshed counts as abandoned. Defaults to 60 seconds. */
+  staleMs?: number;
+  /** Delay between attempts while waiting. Defaults to 100 ms. */
+  retryIntervalMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+/**
+ * An advisory lock shared between processes, held by creating a lock file exclusively.
+ *
+ * The holder touches the file while it works. A lock whose file has not been touched for
+ * `staleMs`, or whose owner was a process on this machine that no longer exists, is broken so
+ * a crashed process cannot block the others forever.
+ */
+export class FileLock {
+  readonly path: string;
+  private readonly timeoutMs: number;
+  private readonly staleMs: number;
+  private readonly retryIntervalMs: number;
+
+  constructor(path: string, options: FileLockOptions = {}) {
+    this.path = path;
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+    this.staleMs = options.staleMs ?? 60_000;
+    this.retryIntervalMs = options.retryIntervalMs ?? 100;
+  }
+
+  /**
+   * Runs `task` while holding the lock, waiting for the current holder first.
+   * @throws {SessionLockError} If the lock could not be acquired within `timeoutMs`
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await task();
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Acquires the lock.
+   * @returns A function that releases it
+   * @throws {SessionLockError} If the lock could not be acquired within `timeoutMs`
+   */
+  async acquire(): Promise<() => Promise<void>> {
+    const deadline = Date.now() + this.timeoutMs;
+    await fs.mkdir(dirname(this.path), { recursive: true });
+
+    while (!(await this.tryCreate())) {
+      const stale = await this.findStale();
+      if (stale) {
+        await this.breakStale(stale);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new SessionLockError(`Timed out after ${this.timeoutMs}ms waiting for lock ${this.path}`);
+      }
+      await sleep(this.retryIntervalMs);
+    }
+
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      void fs.utimes(this.path, now, now).catch(() => undefined);
+    }, Math.max(1, Math.floor(this.staleMs / 3)));
+    heartbeat.unref();
+
+    return async () => {
+      clearInterval(heartbeat);
+      await fs.unlink(this.path).catch(() => undefined);
+    };
+  }
+
+  private async tryCreate(): Promise<boolean> {
+    const owner: LockOwner = { pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString() };
+    try {
+      await fs.writeFile(this.path, JSON.stringify(owner), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  /** Returns the stats of the lock file if it is stale, so only that file is removed. */
+  private async findStale(): Promise<Stats | undefined> {
+    let stats: Stats;
+    let owner: Partial<LockOwner> = {};
+    try {
+      stats = await fs.stat(this.path);
+      if (Date.now() - stats.mtimeMs > this.staleMs) return stats;
+      owner = JSON.parse(await fs.readFile(this.path, 'utf-8')) as LockOwner;
+    } catch {
+      // Released in the meantime, or caught half-written. Either way, try again.
+      return undefined;
+    }
+
+    if (owner.hostname !== hostname() || typeof owner.pid !== 'number') return undefined;
+    try {
+      process.kill(owner.pid, 0);
+      return undefined;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ESRCH' ? stats : undefined;
+    }
+  }
+
+  /**
+   * Removes the stale lock file found by {@link findStale}. The file is first renamed aside, which
+   * only one waiter can do, and put back if it turns out to be a newer lock taken since the check.
+   */
+  private async breakStale(stale: Stats): Promise<void> {
+    const aside = `${this.path}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
+    try {
+      await fs.rename(this.path, aside);
+    } catch {
+      return;
+    }
+
+    const moved = await fs.stat(aside).catch(() => undefined);
+    if (moved && (moved.ino !== stale.ino || moved.mtimeMs !== stale.mtimeMs)) {
+      await fs.link(aside, this.path).catch(() => undefined);
+    }
+    await fs.unlink(aside).catch(() => undefined);
+  }
+}
+
+/**
+ * Replaces `file` by writing a temporary file next to it and renaming it into place, so readers
+ * never see a partly written file.
+ */
+export const writeFileAtomic = async (
+  file: string,
+  contents: string,
+  options: { mode?: number } = {},
+): Promise<void> => {
+  const temp = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  await fs.mkdir(dirname(file), { recursive: true });
+  try {
+    await fs.writeFile(temp, contents, { encoding: 'utf-8', mode: options.mode });
+    await fs.rename(temp, file);
+  } catch (error) {
+    await fs.unlink(temp).catch(() => undefined);
+    throw error;
+  }
+};
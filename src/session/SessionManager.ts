@@ -1,78 +1,60 @@
-import { promises as fs } from 'node:fs';
-import { dirname, resolve } from 'node:path';
 import { DEFAULT_SESSION_FILE } from '../constants.js';
-import type { SessionInfo, SessionPayload, SessionPersistencePayload } from '../types/index.js';
-
+import type { SessionInfo, SessionPersistencePayload } from '../types/index.js';
+import {
+  FileSessionStore,
+  isSessionExpired,
+  type FileSessionStoreOptions,
+  type SessionSaveInput,
+  type SessionStore,
+} from './SessionStore.js';
+
+/**
+ * Saves and restores the client's session through a {@link SessionStore}.
+ */
 export class SessionManager {
-  private readonly sessionFile: string;
-  private readonly expirationHours: number;
-
-  constructor(sessionFile = DEFAULT_SESSION_FILE, expirationHours = 24) {
-    this.sessionFile = resolve(sessionFile);
-    this.expirationHours = expirationHours;
+  readonly store: SessionStore;
+
+  /**
+   * @param store A session store, or the path of a session file
+   * @param expirationHours Session lifetime when `store` is a file path and the server gives none
+   * @param fileOptions Encryption and logging options when `store` is a file path
+   */
+  constructor(
+    store: SessionStore | string = DEFAULT_SESSION_FILE,
+    expirationHours = 24,
+    fileOptions: FileSessionStoreOptions = {},
+  ) {
+    this.store = typeof store === 'string' ? new FileSessionStore(store, expirationHours, fileOptions) : store;
   }
 
-  async saveSession(payload: SessionPayload & { username?: string }): Promise<void> {
-    const createdAt = new Date();
-    const expiresAt = new Date(createdAt.getTime() + this.expirationHours * 60 * 60 * 1000);
-
-    const data: SessionPersistencePayload = {
-      sessionCookie: payload.sessionCookie,
-      authToken: payload.authToken,
-      botId: payload.botId,
-      username: payload.username,
-      createdAt: createdAt.toISOString(),
-      expiresAt: expiresAt.toISOString(),
-    };
+  /**
+   * Runs `task` under the store's cross-process lock, or directly if the store has none.
+   */
+  withLock<T>(task: () => Promise<T>): Promise<T> {
+    return this.store.lock ? this.store.lock(task) : task();
+  }
 
-    await fs.mkdir(dirname(this.sessionFile), { recursive: true });
-    await fs.writeFile(this.sessionFile, JSON.stringify(data, null, 2), 'utf-8');
+  async saveSession(payload: SessionSaveInput): Promise<void> {
+    await this.store.save(payload);
   }
 
   async loadSession(): Promise<SessionPersistencePayload | null> {
     try {
-      const raw = await fs.readFile(this.sessionFile, 'utf-8');
-      const payload = JSON.parse(raw) as SessionPersistencePayload;
-      if (this.isExpired(payload)) {
-        await this.clearSession();
-        return null;
-      }
-      return payload;
-    } catch (error) {
+      return await this.store.load();
+    } catch {
       return null;
     }
   }
 
   async clearSession(): Promise<void> {
-    try {
-      await fs.unlink(this.sessionFile);
-    } catch {
-      // ignore
-    }
+    await this.store.clear();
   }
 
   isExpired(payload: SessionPersistencePayload): boolean {
-    const expires = new Date(payload.expiresAt);
-    return Number.isNaN(expires.getTime()) || Date.now() >= expires.getTime();
+    return isSessionExpired(payload);
   }
 
   async getSessionInfo(): Promise<SessionInfo | null> {
-    const data = await this.loadSession();
-    if (!data) return null;
-
-    const createdAt = new Date(data.createdAt);
-    const expiresAt = new Date(data.expiresAt);
-    const now = Date.now();
-    const timeRemainingMs = Math.max(0, expiresAt.getTime() - now);
-
-    return {
-      username: data.username ?? undefined,
-      botId: data.botId ?? undefined,
-      createdAt,
-      expiresAt,
-      timeRemainingMs,
-      isExpired: this.isExpired(data),
-    };
+    return this.store.info();
   }
 }
-
@@ -0,0 +1,154 @@
+import { EventEmitter } from 'node:events';
+import type { AuthManager } from '../auth/AuthManager.js';
+import { createLogger, type Logger } from '../utils/logger.js';
+
+export interface SessionMonitorOptions {
+  /** How often to ask the server whether the session is still valid. Defaults to 15 minutes. */
+  intervalMs?: number;
+  /** How long before the session cookie expires to emit `sessionExpiring`. Defaults to 10 minutes. */
+  expiringThresholdMs?: number;
+  logger?: Logger;
+}
+
+/**
+ * Why a session ended: its cookie `expired`, a background check found it `invalid`, or an API
+ * request was `rejected` with 401.
+ */
+export type SessionExpiredReason = 'expired' | 'invalid' | 'rejected';
+
+export interface SessionExpiringEvent {
+  expiresAt: Date;
+  remainingMs: number;
+}
+
+export interface SessionExpiredEvent {
+  reason: SessionExpiredReason;
+}
+
+// setTimeout fires immediately for delays that do not fit in 32 bits.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Watches the session in the background so it can be renewed before requests start failing.
+ *
+ * Emits `sessionExpiring` with a {@link SessionExpiringEvent} shortly before the session cookie
+ * expires, `sessionExpired` with a {@link SessionExpiredEvent} once it has expired or the server
+ * stops accepting it, and `sessionValidated` after each successful check. A check that cannot
+ * reach the server is not treated as expiry.
+ */
+export class SessionMonitor extends EventEmitter {
+  private readonly auth: AuthManager;
+  private readonly intervalMs: number;
+  private readonly expiringThresholdMs: number;
+  private readonly logger: Logger;
+  private checkTimer?: NodeJS.Timeout;
+  private expiringTimer?: NodeJS.Timeout;
+  private expiryTimer?: NodeJS.Timeout;
+  private checking: Promise<boolean> | null = null;
+
+  constructor(auth: AuthManager, options: SessionMonitorOptions = {}) {
+    super();
+    this.auth = auth;
+    this.intervalMs = options.intervalMs ?? 15 * 60_000;
+    this.expiringThresholdMs = options.expiringThresholdMs ?? 10 * 60_000;
+    this.logger = createLogger(options.logger);
+  }
+
+  get running(): boolean {
+    return this.checkTimer !== undefined;
+  }
+
+  /**
+   * Starts the periodic check. Call again after the session changes to re-arm the expiry timers.
+   */
+  start(): void {
+    if (!this.checkTimer) {
+      this.checkTimer = setInterval(() => void this.check(), this.intervalMs);
+      this.checkTimer.unref();
+    }
+    this.scheduleExpiry();
+  }
+
+  stop(): void {
+    clearInterval(this.checkTimer);
+    this.clearExpiryTimers();
+    this.checkTimer = undefined;
+  }
+
+  /**
+   * Checks the session with the server now. Concurrent calls share one check.
+   * @returns Whether the session is still valid, or assumed to be when the server is unreachable
+   */
+  check(): Promise<boolean> {
+    this.checking ??= this.runCheck().finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  private async runCheck(): Promise<boolean> {
+    if (!this.auth.isAuthenticated) {
+      this.expire('expired');
+      return false;
+    }
+
+    const status = await this.auth.checkSession();
+    if (status === 'invalid') {
+      this.expire('invalid');
+      return false;
+    }
+    if (status === 'valid') {
+      this.emit('sessionValidated');
+    } else {
+      this.logger.debug('Session check inconclusive, will retry');
+    }
+    // The check may have rotated the cookie and moved its expiry.
+    if (this.running) this.scheduleExpiry();
+    return true;
+  }
+
+  private expire(reason: SessionExpiredReason): void {
+    this.clearExpiryTimers();
+    this.logger.info('Session expired', { reason });
+    this.emit('sessionExpired', { reason } satisfies SessionExpiredEvent);
+  }
+
+  private scheduleExpiry(): void {
+    this.clearExpiryTimers();
+    const expiresAt = this.auth.sessionExpiresAt;
+    if (!expiresAt) return;
+
+    this.expiringTimer = this.at(expiresAt.getTime() - this.expiringThresholdMs, () => {
+      this.emit('sessionExpiring', {
+        expiresAt,
+        remainingMs: Math.max(0, expiresAt.getTime() - Date.now()),
+      } satisfies SessionExpiringEvent);
+    });
+    this.expiryTimer = this.at(expiresAt.getTime(), () => {
+      if (!this.auth.isAuthenticated) this.expire('expired');
+    });
+  }
+
+  /** Runs `callback` at `time`, re-arming as needed for times beyond the timer limit. */
+  private at(time: number, callback: () => void): NodeJS.Timeout {
+    const delay = Math.max(0, time - Date.now());
+    const timer = setTimeout(() => {
+      if (Date.now() < time) {
+        const next = this.at(time, callback);
+        if (this.expiringTimer === timer) this.expiringTimer = next;
+        if (this.expiryTimer === timer) this.expiryTimer = next;
+        return;
+      }
+      callback();
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+    timer.unref();
+    return timer;
+  }
+
+  private clearExpiryTimers(): void {
+    clearTimeout(this.expiringTimer);
+    clearTimeout(this.expiryTimer);
+    this.expiringTimer = undefined;
+    this.expiryTimer = undefined;
+  }
+}
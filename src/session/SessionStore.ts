@@ -0,0 +1,277 @@
+import { promises as fs } from 'node:fs';
+import { resolve } from 'node:path';
+import { DEFAULT_SESSION_ENV_VAR, DEFAULT_SESSION_FILE, DEFAULT_SESSION_KEY_ENV_VAR } from '../constants.js';
+import { ValidationError } from '../errors.js';
+import type { SessionInfo, SessionPayload, SessionPersistencePayload } from '../types/index.js';
+import { createLogger, type Logger } from '../utils/logger.js';
+import { decryptSession, encryptSession, isEncryptedEnvelope, type SessionKey } from './encryption.js';
+import { FileLock, writeFileAtomic, type FileLockOptions } from './FileLock.js';
+
+export type SessionSaveInput = SessionPayload & { username?: string };
+
+/**
+ * Where a persisted session lives. Implement this to keep sessions in Redis, a database or any
+ * other key-value store, or extend {@link BaseSessionStore} and only provide raw reads and writes.
+ */
+export interface SessionStore {
+  /** Returns the saved session, or `null` if there is none or it has expired. */
+  load(): Promise<SessionPersistencePayload | null>;
+  save(payload: SessionSaveInput): Promise<void>;
+  clear(): Promise<void>;
+  /** Describes the saved session without exposing its secrets. */
+  info(): Promise<SessionInfo | null>;
+  /**
+   * Runs `task` while no other process using the same store can run its own. The client logs in
+   * inside this, so a process that finds the lock held waits and then reuses the new session.
+   */
+  lock?<T>(task: () => Promise<T>): Promise<T>;
+}
+
+export const isSessionExpired = (payload: SessionPersistencePayload): boolean => {
+  const expires = new Date(payload.expiresAt);
+  return Number.isNaN(expires.getTime()) || Date.now() >= expires.getTime();
+};
+
+/**
+ * Handles expiry stamping and `info()` so subclasses only read, write and remove the payload.
+ *
+ * A saved session expires when the server said its cookie does. If the server gave no expiry,
+ * it is kept for `expirationHours` from the last save.
+ */
+export abstract class BaseSessionStore implements SessionStore {
+  protected readonly expirationHours: number;
+
+  constructor(expirationHours = 24) {
+    this.expirationHours = expirationHours;
+  }
+
+  protected abstract read(): Promise<SessionPersistencePayload | null>;
+  protected abstract write(payload: SessionPersistencePayload): Promise<void>;
+  protected abstract remove(): Promise<void>;
+
+  async load(): Promise<SessionPersistencePayload | null> {
+    const payload = await this.read();
+    if (!payload) return null;
+    if (isSessionExpired(payload)) {
+      await this.clear();
+      return null;
+    }
+    return payload;
+  }
+
+  async save(payload: SessionSaveInput): Promise<void> {
+    const createdAt = new Date();
+    const expiresAt = payload.sessionExpiresAt
+      ? new Date(payload.sessionExpiresAt)
+      : new Date(createdAt.getTime() + this.expirationHours * 60 * 60 * 1000);
+
+    await this.write({
+      sessionCookie: payload.sessionCookie,
+      authToken: payload.authToken,
+      botId: payload.botId,
+      cookies: payload.cookies,
+      sessionExpiresAt: payload.sessionExpiresAt,
+      username: payload.username,
+      createdAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.remove();
+  }
+
+  async info(): Promise<SessionInfo | null> {
+    const data = await this.load();
+    if (!data) return null;
+
+    const createdAt = new Date(data.createdAt);
+    const expiresAt = new Date(data.expiresAt);
+
+    return {
+      username: data.username ?? undefined,
+      botId: data.botId ?? undefined,
+      createdAt,
+      expiresAt,
+      timeRemainingMs: Math.max(0, expiresAt.getTime() - Date.now()),
+      isExpired: isSessionExpired(data),
+    };
+  }
+}
+
+export interface SessionEncryptionOptions {
+  /** Passphrase or key used to encrypt the file. Falls back to the `keyEnvVar` environment variable. */
+  key?: SessionKey;
+  /** Environment variable holding the key. Defaults to `INTERPALS_SESSION_KEY`. */
+  keyEnvVar?: string;
+  /** Older keys still accepted when reading. A file opened with one is re-encrypted with `key`. */
+  previousKeys?: SessionKey[];
+}
+
+export interface FileSessionStoreOptions {
+  /**
+   * Encrypts the file with AES-256-GCM. Also enabled when the key environment variable is set.
+   * Existing plaintext files are encrypted the next time they are read.
+   */
+  encryption?: SessionEncryptionOptions;
+  /** Timing of the lock file that keeps processes sharing the session file from logging in at once. */
+  lock?: FileLockOptions;
+  logger?: Logger;
+}
+
+/**
+ * Keeps the session in a JSON file, optionally encrypted. This is what `persistSession` uses.
+ *
+ * Writes replace the file atomically, and {@link lock} holds a `.lock` file next to it so
+ * several processes can share one session file.
+ *
+ * An encrypted file that fails authentication, because it was modified or no configured key
+ * opens it, is deleted and treated as having no saved session.
+ */
+export class FileSessionStore extends BaseSessionStore {
+  readonly file: string;
+  private readonly encryption?: SessionEncryptionOptions;
+  private readonly fileLock: FileLock;
+  private readonly logger: Logger;
+
+  constructor(file = DEFAULT_SESSION_FILE, expirationHours = 24, options: FileSessionStoreOptions = {}) {
+    super(expirationHours);
+    this.file = resolve(file);
+    this.encryption = options.encryption;
+    this.fileLock = new FileLock(`${this.file}.lock`, options.lock);
+    this.logger = createLogger(options.logger);
+  }
+
+  lock<T>(task: () => Promise<T>): Promise<T> {
+    return this.fileLock.run(task);
+  }
+
+  protected async read(): Promise<SessionPersistencePayload | null> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(this.file, 'utf-8'));
+    } catch {
+      return null;
+    }
+
+    const key = this.resolveKey();
+    if (!isEncryptedEnvelope(parsed)) {
+      const payload = parsed as SessionPersistencePayload;
+      if (key) {
+        this.logger.info('Encrypting plaintext session file', { file: this.file });
+        await this.write(payload);
+      }
+      return payload;
+    }
+
+    if (!key) {
+      throw new ValidationError(`Session file ${this.file} is encrypted but no key is configured`);
+    }
+
+    for (const [index, candidate] of [key, ...(this.encryption?.previousKeys ?? [])].entries()) {
+      let plaintext: string;
+      try {
+        plaintext = await decryptSession(parsed, candidate);
+      } catch {
+        continue;
+      }
+
+      const payload = JSON.parse(plaintext) as SessionPersistencePayload;
+      if (index > 0) {
+        this.logger.info('Re-encrypting session file with the current key', { file: this.file });
+        await this.write(payload);
+      }
+      return payload;
+    }
+
+    this.logger.warn('Session file failed authentication and was cleared', { file: this.file });
+    await this.remove();
+    return null;
+  }
+
+  protected async write(payload: SessionPersistencePayload): Promise<void> {
+    const key = this.resolveKey();
+    const contents = key ? await encryptSession(JSON.stringify(payload), key) : payload;
+    await writeFileAtomic(this.file, JSON.stringify(contents, null, 2), { mode: 0o600 });
+  }
+
+  private resolveKey(): SessionKey | undefined {
+    const key = this.encryption?.key ?? process.env[this.encryption?.keyEnvVar ?? DEFAULT_SESSION_KEY_ENV_VAR];
+    if (this.encryption && !key) {
+      throw new ValidationError(
+        `Session encryption is enabled but no key was given and ${this.encryption.keyEnvVar ?? DEFAULT_SESSION_KEY_ENV_VAR} is not set`,
+      );
+    }
+    return key || undefined;
+  }
+
+  protected async remove(): Promise<void> {
+    try {
+      await fs.unlink(this.file);
+    } catch {
+      // ignore
+    }
+  }
+}
+
+/**
+ * Keeps the session in memory only, for tests and short-lived processes.
+ */
+export class MemorySessionStore extends BaseSessionStore {
+  private payload: SessionPersistencePayload | null = null;
+
+  protected async read(): Promise<SessionPersistencePayload | null> {
+    return this.payload ? { ...this.payload } : null;
+  }
+
+  protected async write(payload: SessionPersistencePayload): Promise<void> {
+    this.payload = { ...payload };
+  }
+
+  protected async remove(): Promise<void> {
+    this.payload = null;
+  }
+}
+
+/**
+ * Reads the session from an environment variable holding the session JSON, either as-is or
+ * base64-encoded. Suits containers where the session is injected as a secret.
+ *
+ * Saves only update `process.env` for the current process. A value without `expiresAt` is
+ * treated as created at startup and expires after `expirationHours`.
+ */
+export class EnvSessionStore extends BaseSessionStore {
+  readonly variable: string;
+  private readonly loadedAt = new Date();
+
+  constructor(variable = DEFAULT_SESSION_ENV_VAR, expirationHours = 24) {
+    super(expirationHours);
+    this.variable = variable;
+  }
+
+  protected async read(): Promise<SessionPersistencePayload | null> {
+    const raw = process.env[this.variable]?.trim();
+    if (!raw) return null;
+
+    let payload: Partial<SessionPersistencePayload>;
+    try {
+      payload = JSON.parse(raw.startsWith('{') ? raw : Buffer.from(raw, 'base64').toString('utf-8'));
+    } catch {
+      return null;
+    }
+    if (!payload.sessionCookie) return null;
+
+    const createdAt = payload.createdAt ?? this.loadedAt.toISOString();
+    const expiresAt =
+      payload.expiresAt ?? new Date(Date.parse(createdAt) + this.expirationHours * 60 * 60 * 1000).toISOString();
+    return { ...payload, sessionCookie: payload.sessionCookie, createdAt, expiresAt };
+  }
+
+  protected async write(payload: SessionPersistencePayload): Promise<void> {
+    process.env[this.variable] = JSON.stringify(payload);
+  }
+
+  protected async remove(): Promise<void> {
+    delete process.env[this.variable];
+  }
+}
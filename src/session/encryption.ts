@@ -0,0 +1,61 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (password: string | Buffer, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const ALGORITHM = 'aes-256-gcm';
+
+export type SessionKey = string | Buffer;
+
+/**
+ * The on-disk form of an encrypted session file.
+ */
+export interface EncryptedSessionEnvelope {
+  version: 1;
+  alg: typeof ALGORITHM;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export const isEncryptedEnvelope = (value: unknown): value is EncryptedSessionEnvelope =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  (value as EncryptedSessionEnvelope).alg === ALGORITHM &&
+  typeof (value as EncryptedSessionEnvelope).data === 'string';
+
+/**
+ * Encrypts `plaintext` with a key derived from `key` and a fresh random salt.
+ */
+export const encryptSession = async (plaintext: string, key: SessionKey): Promise<EncryptedSessionEnvelope> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, await scryptAsync(key, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    version: 1,
+    alg: ALGORITHM,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+};
+
+/**
+ * Decrypts an envelope.
+ * @throws If the key is wrong or the envelope was modified
+ */
+export const decryptSession = async (envelope: EncryptedSessionEnvelope, key: SessionKey): Promise<string> => {
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    await scryptAsync(key, Buffer.from(envelope.salt, 'base64'), 32),
+    Buffer.from(envelope.iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf-8');
+};
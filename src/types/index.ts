@@ -2,6 +2,10 @@ export interface SessionPayload {
   sessionCookie: string;
   authToken?: string | null;
   botId?: string | null;
+  /** Every cookie in the jar, including `interpals_sessid`. */
+  cookies?: Record<string, string>;
+  /** When the server said the session cookie expires, as an ISO date. Absent for browser-session cookies. */
+  sessionExpiresAt?: string;
 }
 
 export interface LoginResult extends SessionPayload {
@@ -23,27 +27,135 @@ export interface SessionInfo {
   isExpired: boolean;
 }
 
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/** Returns credentials, or `null` if there are none to log in with. */
+export type CredentialCallback = () => Credentials | null | Promise<Credentials | null>;
+
+export type LoginChallengeType = 'two_factor' | 'email_verification' | 'captcha' | (string & {});
+
+/**
+ * A step the server requires before it completes a login.
+ */
+export interface LoginChallenge {
+  type: LoginChallengeType;
+  /** Whatever else the server sent with the challenge, e.g. a captcha site key or a masked email address. */
+  params: Record<string, unknown>;
+  /** Identifies the pending login. Sent back with the answer. */
+  token?: string;
+  message?: string;
+}
+
+/**
+ * The answer to a challenge: the code or captcha solution, or form fields to send as-is.
+ */
+export type ChallengeAnswer = string | Record<string, string>;
+
+/**
+ * Answers a login challenge. Resolve `null` or `undefined` to give up, which fails the login with
+ * a `LoginChallengeError`.
+ */
+export type ChallengeHandler = (
+  challenge: LoginChallenge,
+) => ChallengeAnswer | null | undefined | Promise<ChallengeAnswer | null | undefined>;
+
 export type RequestParams = Record<string, string | number | boolean | undefined | null>;
 
 export interface InterpalClientOptions {
   username?: string;
   password?: string;
+  /**
+   * Where to read credentials when logging in, e.g. an `EnvCredentialProvider`, a
+   * `FileCredentialProvider`, a callback, or an array of these tried in order. Read lazily on every
+   * login, including automatic re-login. Takes precedence over `username`/`password`.
+   */
+  credentials?: import('../auth/credentials.js').CredentialSource;
+  /** Answers verification, two-factor and captcha challenges during login. The client also emits `loginChallenge`. */
+  onChallenge?: ChallengeHandler;
+  /** Log in again and replay the request when the API answers 401. Defaults to `true`. */
+  autoReauthenticate?: boolean;
   sessionCookie?: string;
   authToken?: string;
   autoLogin?: boolean;
   userAgent?: string;
   persistSession?: boolean;
   sessionFile?: string;
+  /** How long to keep a saved session whose cookie has no server-given expiry. Defaults to 24. */
   sessionExpirationHours?: number;
+  /** Where to persist the session. Enables persistence on its own; overrides `sessionFile`. */
+  sessionStore?: import('../session/SessionStore.js').SessionStore;
+  /**
+   * Checks the session with the server in the background and emits `sessionExpiring` and
+   * `sessionExpired`, renewing it when `autoReauthenticate` allows. Defaults to `true`.
+   */
+  sessionMonitor?: boolean | import('../session/SessionMonitor.js').SessionMonitorOptions;
+  /** Encrypts the session file. See `FileSessionStoreOptions.encryption`. */
+  sessionEncryption?: import('../session/SessionStore.js').SessionEncryptionOptions;
   maxMessages?: number;
   cacheUsers?: boolean;
   cacheThreads?: boolean;
   weakReferences?: boolean;
   /** Gateway intents to subscribe to. Can be a number, array of numbers/strings, or intent names */
   intents?: import('../util/Intents.js').IntentResolvable;
+  /** Transport shared by authentication and API requests. Pass a `MockTransport` to run offline. */
+  transport?: import('../http/Transport.js').Transport;
+  /** Rate-limit buckets shared with other clients. See `HttpClientOptions.buckets`. */
+  rateLimitBuckets?: Map<import('../http/RateLimitBucket.js').RateLimitBucketName, import('../http/RateLimitBucket.js').RateLimitBucket>;
+  /** Middleware appended to the HTTP request pipeline. See `HttpClient.use()`. */
+  middleware?: import('../http/middleware.js').HttpMiddleware[];
+  /** Structured logger for HTTP, auth and gateway activity. Silent by default; secrets are always redacted. */
+  logger?: import('../utils/logger.js').Logger;
+  /** Gateway reconnect backoff. See `WebSocketConfig`. */
+  reconnect?: Pick<
+    import('../websocket/WebSocketClient.js').WebSocketConfig,
+    'reconnectDelayMs' | 'maxReconnectDelayMs' | 'maxReconnectAttempts' | 'stableConnectionMs'
+  >;
+  /** Named endpoint set: `direct`, `proxied` (default) or `local`. */
+  profile?: import('../utils/endpoints.js').EndpointProfileName;
+  /** Overrides the profile's REST API base URL. */
+  apiBaseUrl?: string;
+  /** Overrides the profile's WebSocket gateway URL. */
+  gatewayUrl?: string;
+  /**
+   * Enables the conditional-request HTTP cache. Pass `true` for an in-memory cache that
+   * revalidates every hit, or options with per-endpoint TTL rules and a custom store.
+   */
+  responseCache?: boolean | import('../http/ResponseCache.js').ResponseCacheOptions | import('../http/ResponseCache.js').ResponseCache;
+  /**
+   * Queue sends that fail on network errors or rate limits and retry them, including after a
+   * restart. Pass `true` for a file-backed outbox or options with a custom store.
+   */
+  outbox?: boolean | import('../outbox/MessageOutbox.js').MessageOutboxOptions;
+  /**
+   * Records all HTTP traffic to a cassette, or replays it from one instead of the network.
+   * Recorded cassettes have cookies, tokens and passwords redacted.
+   */
+  traffic?: TrafficOptions;
+}
+
+export type TrafficOptions =
+  | ({ mode: 'record' } & import('../http/RecordingTransport.js').RecordingTransportOptions)
+  | ({ mode: 'replay'; cassette: string } & Omit<import('../http/ReplayTransport.js').ReplayTransportOptions, 'cassette'>);
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface CallOptions {
+  /** Cancels the call, including any time spent queued or waiting to retry. */
+  signal?: AbortSignal;
+  /** Fails the call with a `RequestAbortedError` if it has not finished within this many milliseconds. */
+  timeoutMs?: number;
+  /** Share an identical GET that is already in flight instead of sending another. Defaults to `true`. */
+  dedupe?: boolean;
+  /** Queue position within the rate-limit bucket. `high` requests run before queued `normal` and `low` ones. */
+  priority?: RequestPriority;
+  /** Set to `false` to skip the automatic retry step, for callers that retry on their own. */
+  retry?: boolean;
 }
 
-export interface RequestOptions {
+export interface RequestOptions extends CallOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   endpoint: string;
   data?: unknown;
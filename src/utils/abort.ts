@@ -0,0 +1,73 @@
+import { RequestAbortedError } from '../errors.js';
+
+export interface LinkedSignal {
+  signal?: AbortSignal;
+  /** Detaches listeners and clears the timeout. Call once the operation settles. */
+  dispose(): void;
+}
+
+/**
+ * Combines a caller's signal and an optional timeout into a single signal.
+ * A timeout aborts with a `RequestAbortedError` whose reason is `timeout`.
+ */
+export const linkSignal = (signal?: AbortSignal, timeoutMs?: number): LinkedSignal => {
+  if (!signal && !timeoutMs) {
+    return { signal: undefined, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = timeoutMs
+    ? setTimeout(
+        () => controller.abort(new RequestAbortedError(`Request timed out after ${timeoutMs}ms`, 'timeout')),
+        timeoutMs,
+      )
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+/**
+ * Converts an aborted signal's reason into a `RequestAbortedError`.
+ */
+export const toAbortError = (signal: AbortSignal): RequestAbortedError =>
+  signal.reason instanceof RequestAbortedError ? signal.reason : new RequestAbortedError();
+
+/**
+ * Rejects as soon as `signal` aborts, without waiting for `promise` to settle.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    // Nobody is waiting for the result any more, so keep its rejection from going unhandled.
+    promise.catch(() => {});
+    return Promise.reject(toAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Waits `ms` milliseconds, or rejects early if `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  abortable(new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => clearTimeout(timer), { once: true });
+  }), signal);
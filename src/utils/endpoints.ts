@@ -0,0 +1,54 @@
+import { DEFAULT_ENDPOINT_PROFILE, ENDPOINT_PROFILES } from '../constants.js';
+import { ValidationError } from '../errors.js';
+
+export type EndpointProfileName = keyof typeof ENDPOINT_PROFILES;
+
+export interface EndpointOptions {
+  /** Named set of endpoints to start from. Defaults to `proxied`. */
+  profile?: EndpointProfileName;
+  /** Overrides the profile's REST API base URL. */
+  apiBaseUrl?: string;
+  /** Overrides the profile's WebSocket gateway URL. */
+  gatewayUrl?: string;
+}
+
+export interface ResolvedEndpoints {
+  profile: EndpointProfileName;
+  apiBaseUrl: string;
+  gatewayUrl: string;
+}
+
+const validateUrl = (name: string, value: string, protocols: string[]): string => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ValidationError(`${name} must be an absolute URL, got "${value}"`);
+  }
+
+  if (!protocols.includes(url.protocol)) {
+    throw new ValidationError(`${name} must use ${protocols.join(' or ')}, got "${url.protocol}"`);
+  }
+
+  return value.replace(/\/+$/, '');
+};
+
+/**
+ * Resolves and validates the API and gateway endpoints from a profile and explicit overrides.
+ * @throws {ValidationError} If the profile is unknown or a URL is malformed
+ */
+export const resolveEndpoints = (options: EndpointOptions = {}): ResolvedEndpoints => {
+  const profile = options.profile ?? DEFAULT_ENDPOINT_PROFILE;
+  if (!Object.prototype.hasOwnProperty.call(ENDPOINT_PROFILES, profile)) {
+    throw new ValidationError(
+      `Unknown endpoint profile "${profile}". Expected one of: ${Object.keys(ENDPOINT_PROFILES).join(', ')}`,
+    );
+  }
+
+  const defaults = ENDPOINT_PROFILES[profile];
+  return {
+    profile,
+    apiBaseUrl: validateUrl('apiBaseUrl', options.apiBaseUrl ?? defaults.apiBaseUrl, ['http:', 'https:']),
+    gatewayUrl: validateUrl('gatewayUrl', options.gatewayUrl ?? defaults.gatewayUrl, ['ws:', 'wss:']),
+  };
+};
@@ -0,0 +1,118 @@
+import { redact } from './redact.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type LogMeta = Record<string, unknown>;
+
+/**
+ * Minimal structured logger. Compatible with most logging libraries through a thin adapter.
+ */
+export interface Logger {
+  debug(message: string, meta?: LogMeta): void;
+  info(message: string, meta?: LogMeta): void;
+  warn(message: string, meta?: LogMeta): void;
+  error(message: string, meta?: LogMeta): void;
+  /** Returns a logger that adds `bindings` to every entry. */
+  child(bindings: LogMeta): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * A logger that discards everything. This is the library default.
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => silentLogger,
+};
+
+/**
+ * Writes entries at or above `level` to the console.
+ */
+export class ConsoleLogger implements Logger {
+  private readonly threshold: number;
+  private readonly level: LogLevel;
+  private readonly bindings: LogMeta;
+
+  constructor(options: { level?: LogLevel; bindings?: LogMeta } = {}) {
+    this.level = options.level ?? 'info';
+    this.threshold = LEVELS[this.level];
+    this.bindings = options.bindings ?? {};
+  }
+
+  debug(message: string, meta?: LogMeta): void {
+    this.write('debug', message, meta);
+  }
+
+  info(message: string, meta?: LogMeta): void {
+    this.write('info', message, meta);
+  }
+
+  warn(message: string, meta?: LogMeta): void {
+    this.write('warn', message, meta);
+  }
+
+  error(message: string, meta?: LogMeta): void {
+    this.write('error', message, meta);
+  }
+
+  child(bindings: LogMeta): Logger {
+    return new ConsoleLogger({ level: this.level, bindings: { ...this.bindings, ...bindings } });
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, meta?: LogMeta): void {
+    if (LEVELS[level] < this.threshold) return;
+    console[level](`[interpal-js] ${message}`, { ...this.bindings, ...(meta ?? {}) });
+  }
+}
+
+/**
+ * Wraps a logger so that every message, entry and binding is redacted before it is written.
+ * The library always logs through this wrapper, whatever logger the user supplies.
+ */
+export class RedactingLogger implements Logger {
+  private readonly inner: Logger;
+
+  constructor(inner: Logger = silentLogger) {
+    this.inner = inner;
+  }
+
+  debug(message: string, meta?: LogMeta): void {
+    this.inner.debug(redact(message) as string, this.clean(meta));
+  }
+
+  info(message: string, meta?: LogMeta): void {
+    this.inner.info(redact(message) as string, this.clean(meta));
+  }
+
+  warn(message: string, meta?: LogMeta): void {
+    this.inner.warn(redact(message) as string, this.clean(meta));
+  }
+
+  error(message: string, meta?: LogMeta): void {
+    this.inner.error(redact(message) as string, this.clean(meta));
+  }
+
+  child(bindings: LogMeta): Logger {
+    return new RedactingLogger(this.inner.child(this.clean(bindings) ?? {}));
+  }
+
+  private clean(meta?: LogMeta): LogMeta | undefined {
+    return meta === undefined ? undefined : (redact(meta) as LogMeta);
+  }
+}
+
+/**
+ * Normalises the `logger` option into a redacting logger.
+ */
+export const createLogger = (logger?: Logger | null): Logger =>
+  logger instanceof RedactingLogger ? logger : new RedactingLogger(logger ?? silentLogger);
@@ -0,0 +1,35 @@
+export type ImageType = 'jpeg' | 'png' | 'gif' | 'webp';
+
+export interface DetectedImageType {
+  type: ImageType;
+  mimeType: string;
+  extension: string;
+}
+
+const IMAGE_TYPES: Record<ImageType, DetectedImageType> = {
+  jpeg: { type: 'jpeg', mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { type: 'png', mimeType: 'image/png', extension: 'png' },
+  gif: { type: 'gif', mimeType: 'image/gif', extension: 'gif' },
+  webp: { type: 'webp', mimeType: 'image/webp', extension: 'webp' },
+};
+
+/** Bytes needed by {@link detectImageType}. */
+export const IMAGE_SIGNATURE_LENGTH = 12;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  bytes.length >= offset + signature.length && signature.every((byte, index) => bytes[offset + index] === byte);
+
+/**
+ * Identifies an image from its leading magic bytes, ignoring any file name or declared type.
+ * @returns The detected type, or `undefined` if the bytes do not match a supported format
+ */
+export const detectImageType = (bytes: Uint8Array): DetectedImageType | undefined => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return IMAGE_TYPES.jpeg;
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return IMAGE_TYPES.png;
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return IMAGE_TYPES.gif;
+  // RIFF....WEBP
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return IMAGE_TYPES.webp;
+  }
+  return undefined;
+};
@@ -0,0 +1,89 @@
+const REDACTED = '[REDACTED]';
+
+const SECRET_KEYS = new Set([
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'x-auth-token',
+  'password',
+  'token',
+  'auth_token',
+  'authtoken',
+  'sessioncookie',
+  'interpals_sessid',
+  'verification_code',
+  'captcha_response',
+  'challenge_token',
+]);
+
+const SECRET_PATTERNS: RegExp[] = [
+  /(interpals_sessid=)[^;,\s&]+/gi,
+  /((?:^|[?&\s])(?:token|auth_token|password|verification_code|captcha_response|challenge_token)=)[^&#\s]+/gi,
+];
+
+export const isSecretKey = (key: string): boolean => SECRET_KEYS.has(key.toLowerCase());
+
+export const redactString = (value: string): string =>
+  SECRET_PATTERNS.reduce((result, pattern) => result.replace(pattern, `$1${REDACTED}`), value);
+
+/**
+ * Reduces an error to the fields worth logging. Its `cause`, `response` and any request config
+ * are dropped because transport errors carry the request headers and login form there.
+ */
+const summarizeError = (error: Error): Record<string, unknown> => {
+  const fields = error as Error & { code?: unknown; status?: unknown; statusCode?: unknown };
+  const summary: Record<string, unknown> = { name: error.name, message: redactString(error.message) };
+  if (fields.code !== undefined) summary.code = fields.code;
+  const status = fields.statusCode ?? fields.status;
+  if (status !== undefined) summary.status = status;
+  return summary;
+};
+
+/**
+ * Returns a copy of `value` with session cookies, auth tokens and passwords masked.
+ * Handles headers, query strings, URL-encoded form bodies and nested objects. Errors become
+ * `{ name, message, code, status }`.
+ */
+export const redact = (value: unknown, seen: WeakSet<object> = new WeakSet()): unknown => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (value instanceof URLSearchParams) {
+    return Array.from(
+      value,
+      ([key, entry]) => `${encodeURIComponent(key)}=${isSecretKey(key) ? REDACTED : encodeURIComponent(entry)}`,
+    ).join('&');
+  }
+
+  if (value instanceof Error) {
+    return summarizeError(value);
+  }
+
+  if (value instanceof Date || ArrayBuffer.isView(value)) {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => redact(entry, seen));
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    // Streams, form data and class instances are logged by reference only.
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key, isSecretKey(key) ? REDACTED : redact(entry, seen)]),
+  );
+};
@@ -15,13 +15,23 @@ import {
 } from '../models/events.js';
 import type { AuthManager } from '../auth/AuthManager.js';
 import type { InterpalState } from '../state/InterpalState.js';
+import { createLogger, type Logger } from '../utils/logger.js';
 
 export interface WebSocketConfig {
   connectTimeoutMs?: number;
   heartbeatIntervalMs?: number;
   pongTimeoutMs?: number;
+  /** Delay before the first reconnect attempt, doubled after every failed one. Defaults to 1 second. */
   reconnectDelayMs?: number;
+  /** Longest delay between reconnect attempts. Defaults to 1 minute. */
+  maxReconnectDelayMs?: number;
+  /** Reconnect attempts before giving up with `reconnectFailed`. Defaults to 10; pass `Infinity` to never give up. */
+  maxReconnectAttempts?: number;
+  /** How long a connection must stay open before the attempt count and delay start over. Defaults to 30 seconds. */
+  stableConnectionMs?: number;
   intents?: number;
+  /** Gateway URL to connect to. Defaults to the production gateway. */
+  gatewayUrl?: string;
 }
 
 type GatewayMessage = {
@@ -46,6 +56,23 @@ const OP = {
 const PING_INTERVAL_MS = 25_000;
 const PONG_TIMEOUT_MS = 8_000;
 
+export interface ReconnectingEvent {
+  /** Which attempt this is, starting at 1. */
+  attempt: number;
+  delayMs: number;
+}
+
+export interface ReconnectFailedEvent {
+  attempts: number;
+}
+
+/**
+ * Connection to the realtime gateway.
+ *
+ * When the connection drops it reconnects with exponential backoff and jitter, emitting
+ * `reconnecting` with a {@link ReconnectingEvent} before each attempt and `reconnectFailed` with a
+ * {@link ReconnectFailedEvent} once `maxReconnectAttempts` have failed.
+ */
 export class WebSocketClient extends EventEmitter {
   private readonly auth: AuthManager;
   private readonly state: InterpalState | null;
@@ -53,29 +80,57 @@ export class WebSocketClient extends EventEmitter {
   private pingInterval: number;
   private readonly pongTimeout: number;
   private readonly reconnectDelay: number;
+  private readonly maxReconnectDelay: number;
+  private readonly maxReconnectAttempts: number;
+  private readonly stableConnection: number;
   private readonly intents?: number;
+  private readonly gatewayUrl: string;
+  private readonly logger: Logger;
 
   private ws: WebSocket | null = null;
   private reconnectTimer?: NodeJS.Timeout;
   private pingTimer?: NodeJS.Timeout;
   private pongTimer?: NodeJS.Timeout;
+  private stableTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  // Set once `reconnectFailed` has been emitted, so a failure seen twice is only reported once.
+  private gaveUp = false;
 
   private lastSeq = 0;
   private manualClose = false;
 
-  constructor(auth: AuthManager, config: WebSocketConfig = {}, options: { state?: InterpalState | null } = {}) {
+  constructor(
+    auth: AuthManager,
+    config: WebSocketConfig = {},
+    options: { state?: InterpalState | null; logger?: Logger } = {},
+  ) {
     super();
     this.auth = auth;
     this.state = options.state ?? null;
+    this.logger = createLogger(options.logger);
 
     this.connectTimeout = config.connectTimeoutMs ?? 10_000;
     this.pingInterval = config.heartbeatIntervalMs ?? PING_INTERVAL_MS;
     this.pongTimeout = config.pongTimeoutMs ?? PONG_TIMEOUT_MS;
-    this.reconnectDelay = config.reconnectDelayMs ?? 0;
+    this.reconnectDelay = config.reconnectDelayMs ?? 1_000;
+    this.maxReconnectDelay = config.maxReconnectDelayMs ?? 60_000;
+    this.maxReconnectAttempts = config.maxReconnectAttempts ?? 10;
+    this.stableConnection = config.stableConnectionMs ?? 30_000;
     this.intents = config.intents;
+    this.gatewayUrl = config.gatewayUrl ?? WEBSOCKET_URL;
   }
 
+  /**
+   * Connects to the gateway. Cancels any pending reconnect and starts the attempt count over.
+   */
   async connect(): Promise<void> {
+    this.cancelReconnect();
+    this.reconnectAttempts = 0;
+    this.gaveUp = false;
+    return this.open();
+  }
+
+  private async open(): Promise<void> {
     if (!this.auth.isAuthenticated) {
       throw new WebSocketAuthenticationError('Not authenticated');
     }
@@ -86,23 +141,24 @@ export class WebSocketClient extends EventEmitter {
     }
 
     this.manualClose = false;
-    let url = `${WEBSOCKET_URL}?token=${encodeURIComponent(token)}`;
+    const separator = this.gatewayUrl.includes('?') ? '&' : '?';
+    let url = `${this.gatewayUrl}${separator}token=${encodeURIComponent(token)}`;
     
     // Add intents to URL if specified
     if (this.intents !== undefined) {
       url += `&intents=${this.intents}`;
     }
     
+    this.logger.debug('Connecting to gateway', { url });
     await this.openSocket(url, this.auth.getHeaders());
   }
 
   async disconnect(): Promise<void> {
     this.manualClose = true;
     this.clearTimers();
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = undefined;
-    }
+    this.clearStableTimer();
+    this.cancelReconnect();
+    this.reconnectAttempts = 0;
     if (!this.ws) {
       return;
     }
@@ -148,6 +204,7 @@ export class WebSocketClient extends EventEmitter {
         this.ws = ws;
         this.clearTimers();
         this.startPingLoop();
+        this.startStableTimer();
         this.emit('ready');
         resolve();
       });
@@ -169,8 +226,12 @@ export class WebSocketClient extends EventEmitter {
           clearTimeout(connectionTimeout);
           connectionTimeout = undefined;
         }
+        // Settles the connect attempt if the socket never opened; a no-op otherwise.
+        reject(new WebSocketConnectionError(`Connection closed before opening (code ${code})`));
         this.clearTimers();
+        this.clearStableTimer();
         this.ws = null;
+        this.logger.info('Gateway connection closed', { code, reason: reason?.toString() });
         this.emit('disconnect', { code, reason: reason?.toString() });
         if (!this.manualClose) {
           this.scheduleReconnect();
@@ -228,16 +289,66 @@ export class WebSocketClient extends EventEmitter {
     }
   }
 
+  /**
+   * Starts the attempt count over once the connection has stayed open for `stableConnectionMs`.
+   * Kept apart from the heartbeat timers, which are reset whenever the server changes the interval.
+   */
+  private startStableTimer() {
+    this.clearStableTimer();
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = undefined;
+      this.reconnectAttempts = 0;
+    }, this.stableConnection);
+  }
+
+  private clearStableTimer() {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = undefined;
+    }
+  }
+
   private scheduleReconnect() {
-    if (this.reconnectTimer || this.manualClose) {
+    if (this.reconnectTimer || this.manualClose || this.gaveUp) {
+      return;
+    }
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.gaveUp = true;
+      this.logger.error('Giving up on reconnecting to the gateway', { attempts: this.reconnectAttempts });
+      this.emit('reconnectFailed', { attempts: this.reconnectAttempts } satisfies ReconnectFailedEvent);
       return;
     }
+
+    this.reconnectAttempts += 1;
+    const event: ReconnectingEvent = { attempt: this.reconnectAttempts, delayMs: this.reconnectBackoff() };
+    this.logger.info('Reconnecting to gateway', { ...event });
+    this.emit('reconnecting', event);
+
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = undefined;
-      this.connect().catch((error) => {
+      this.open().catch((error) => {
         this.reportError(new WebSocketConnectionError(error.message));
+        // Failures that never opened a socket, such as a missing session, have no close event
+        // to schedule the next attempt. Otherwise the close handler already did and this is a no-op.
+        this.scheduleReconnect();
       });
-    }, this.reconnectDelay);
+    }, event.delayMs);
+  }
+
+  /**
+   * Doubles the delay with each attempt up to the maximum, then picks a random point in its upper
+   * half so clients that lost the connection together do not all retry together.
+   */
+  private reconnectBackoff(): number {
+    const exponential = Math.min(this.maxReconnectDelay, this.reconnectDelay * 2 ** (this.reconnectAttempts - 1));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
   }
 
   private handleMessage(raw: WebSocket.Data) {
@@ -348,7 +459,7 @@ export class WebSocketClient extends EventEmitter {
     if (this.listenerCount('error') > 0) {
       super.emit('error', error);
     } else {
-      console.error('[interpal-js][WebSocket] error:', error);
+      this.logger.error('WebSocket error', { error });
     }
   }
 
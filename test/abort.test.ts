@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { RequestAbortedError } from '../src/errors.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport, type MockRequest } from '../src/http/MockTransport.js';
+import { linkSignal } from '../src/utils/abort.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A handler that only settles once the request is aborted, recording the signal it was sent with. */
+const hanging = (signals: (AbortSignal | undefined)[]) => ({ signal }: MockRequest) => {
+  signals.push(signal);
+  return new Promise<never>(() => {});
+};
+
+const createHttp = (transport: MockTransport) => {
+  const auth = new AuthManager();
+  auth.importSession('abc');
+  return new HttpClient(auth, { transport, minRequestIntervalMs: 0 });
+};
+
+describe('linkSignal', () => {
+  it('aborts with a timeout error once timeoutMs passes', async () => {
+    const { signal, dispose } = linkSignal(undefined, 10);
+    await delay(30);
+
+    expect(signal?.reason).toBeInstanceOf(RequestAbortedError);
+    expect(signal?.reason.reason).toBe('timeout');
+    dispose();
+  });
+
+  it("follows the caller's signal and stops following it once disposed", () => {
+    const caller = new AbortController();
+    const linked = linkSignal(caller.signal, 1_000);
+    const disposed = linkSignal(caller.signal);
+    disposed.dispose();
+    caller.abort('stop');
+
+    expect(linked.signal?.reason).toBe('stop');
+    expect(disposed.signal?.aborted).toBe(false);
+    linked.dispose();
+  });
+});
+
+describe('HttpClient cancellation', () => {
+  it('fails a request that outlives timeoutMs with reason timeout', async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const http = createHttp(new MockTransport().route('GET /v1/account', hanging(signals)));
+
+    const error = await http.get('/v1/account', undefined, { timeoutMs: 20 }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    expect((error as RequestAbortedError).reason).toBe('timeout');
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  it('rejects at once when aborted while queued behind another request', async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const transport = new MockTransport().route('GET /v1/thread', async () => {
+      await delay(300);
+      return { data: [] };
+    });
+    transport.route('GET /v1/account', hanging(signals));
+    const http = createHttp(transport);
+    const blocker = http.get('/v1/thread');
+    const controller = new AbortController();
+    const queued = http.get('/v1/account', undefined, { signal: controller.signal });
+
+    await delay(10);
+    const started = Date.now();
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ reason: 'aborted' });
+    expect(Date.now() - started).toBeLessThan(100);
+    await blocker;
+    expect(signals).toEqual([]);
+  });
+
+  it('rejects at once when aborted while waiting to retry', async () => {
+    const transport = new MockTransport().route('GET /v1/account', { status: 503, headers: { 'Retry-After': '30' } });
+    const http = createHttp(transport);
+    const controller = new AbortController();
+    const request = http.get('/v1/account', undefined, { signal: controller.signal });
+
+    await delay(20);
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(transport.callsTo('GET /v1/account')).toHaveLength(1);
+  });
+});
+
+describe('manager cancellation', () => {
+  it('passes the signal on from UserManager.fetch and ThreadManager.fetchAll', async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const transport = new MockTransport()
+      .route('GET /v1/profile/:id', hanging(signals))
+      .route('GET /v1/thread', hanging(signals));
+    const client = new InterpalClient({ transport, sessionCookie: 'abc', sessionMonitor: false });
+    await client.initialize();
+    const controller = new AbortController();
+
+    const user = client.users.fetch('1', { signal: controller.signal });
+    const threads = client.threads.fetchAll({ signal: controller.signal });
+    await delay(10);
+    controller.abort();
+
+    await expect(user).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(threads).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal?.aborted)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ValidationError } from '../src/errors.js';
+import { fromHar, readCassette } from '../src/http/Cassette.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import { RecordingTransport } from '../src/http/RecordingTransport.js';
+import { ReplayTransport } from '../src/http/ReplayTransport.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'interpal-cassette-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const record = async (cassette: string) => {
+  const mock = new MockTransport()
+    .route('POST /v1/token', {
+      data: { auth_token: 'secret-token' },
+      headers: { 'set-cookie': ['interpals_sessid=abc123; Path=/'] },
+    })
+    .route('GET /v1/profile/:id', ({ routeParams }) => ({ data: { id: routeParams.id } }));
+  const recorder = new RecordingTransport(mock, { cassette });
+
+  await recorder.request({ method: 'POST', url: '/v1/token', headers: {}, data: new URLSearchParams({ username: 'ann', password: 'hunter2' }) });
+  await recorder.request({ method: 'GET', url: '/v1/profile/1', params: { fields: 'name' }, headers: { Cookie: 'interpals_sessid=abc123' } });
+  await recorder.flush();
+};
+
+describe.each(['har', 'jsonl'])('%s cassettes', (format) => {
+  it('record exchanges with secrets redacted and replay them in order', async () => {
+    const cassette = join(dir, `traffic.${format}`);
+    await record(cassette);
+
+    const raw = await fs.readFile(cassette, 'utf-8');
+    expect(raw).not.toContain('hunter2');
+    expect(raw).not.toContain('abc123');
+
+    const replay = new ReplayTransport({ cassette });
+    const login = await replay.request({ method: 'POST', url: '/v1/token', headers: {} });
+    expect([login.headers['set-cookie']].flat()).toEqual(['interpals_sessid=[REDACTED]; Path=/']);
+    await expect(replay.request({ method: 'GET', url: '/v1/profile/1', params: { fields: 'name' }, headers: {} })).resolves.toMatchObject({
+      status: 200,
+      data: { id: '1' },
+    });
+    await expect(replay.request({ method: 'GET', url: '/v1/profile/1', params: { fields: 'name' }, headers: {} })).rejects.toMatchObject({
+      code: 'ERR_NO_RECORDING',
+    });
+  });
+
+  it('redact secrets in pre-encoded string bodies', async () => {
+    const cassette = join(dir, `strings.${format}`);
+    const recorder = new RecordingTransport(new MockTransport().route('POST /v1/token', { status: 401 }), { cassette });
+
+    await recorder.request({
+      method: 'POST',
+      url: '/v1/token',
+      headers: {},
+      data: 'password=hunter2&username=ann&token=tok3n; interpals_sessid=abc123',
+    });
+    await recorder.flush();
+
+    const raw = await fs.readFile(cassette, 'utf-8');
+    expect(raw).toContain('username=ann');
+    expect(raw).not.toMatch(/hunter2|tok3n|abc123/);
+  });
+});
+
+describe('fromHar', () => {
+  it('rejects documents without log entries', () => {
+    expect(() => fromHar({ log: {} })).toThrow(ValidationError);
+    expect(() => fromHar(null)).toThrow(ValidationError);
+  });
+
+  it('reads back what readCassette wrote', async () => {
+    const cassette = join(dir, 'traffic.har');
+    await record(cassette);
+
+    const entries = fromHar(JSON.parse(await fs.readFile(cassette, 'utf-8')));
+    expect(entries).toEqual(await readCassette(cassette));
+    expect(entries[1].request).toMatchObject({ method: 'GET', url: '/v1/profile/1', params: { fields: 'name' } });
+  });
+});
@@ -0,0 +1,127 @@
+import type { AddressInfo } from 'node:net';
+import { describe, expect, it, vi } from 'vitest';
+import { WebSocketServer } from 'ws';
+import { ClientPool } from '../src/client/ClientPool.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import { MemoryOutboxStore } from '../src/outbox/OutboxStore.js';
+
+const loginTransport = () =>
+  new MockTransport().route('POST /v1/token', ({ data }) => {
+    const username = new URLSearchParams(data as URLSearchParams).get('username');
+    return {
+      data: { auth_token: `token-${username}`, bot_id: username },
+      headers: { 'set-cookie': [`interpals_sessid=${username}; Path=/`] },
+    };
+  });
+
+const createPool = (transport = loginTransport()) =>
+  new ClientPool({
+    connect: false,
+    defaults: { transport, outbox: { store: new MemoryOutboxStore() } },
+    accounts: [
+      { id: 'ann', username: 'ann', password: 'pw-ann' },
+      { id: 'bob', username: 'bob', password: 'pw-bob' },
+    ],
+  });
+
+describe('ClientPool', () => {
+  it('starts every account with its own session', async () => {
+    const pool = createPool();
+    const started: string[] = [];
+    pool.on('accountStarted', (id: string) => started.push(id));
+
+    expect(await pool.startAll()).toEqual(new Map());
+    expect(started.sort()).toEqual(['ann', 'bob']);
+    expect(pool.get('ann').exportSession().sessionCookie).toBe('ann');
+    expect(pool.get('bob').exportSession().sessionCookie).toBe('bob');
+    expect(pool.status('ann')).toBe('running');
+
+    await pool.stopAll();
+  });
+
+  it('re-emits client events with the account id appended', async () => {
+    const pool = createPool();
+    const received = vi.fn();
+    pool.on('custom', received);
+
+    pool.get('bob').emit('custom', 42);
+    expect(received).toHaveBeenCalledWith(42, 'bob');
+  });
+
+  it('reports accounts that fail to start without stopping the others', async () => {
+    const transport = loginTransport().route('POST /v1/token', { status: 401 }, { times: 1 });
+    const pool = createPool(transport);
+    const failed = vi.fn();
+    pool.on('accountFailed', failed);
+
+    const failures = await pool.startAll();
+
+    expect([...failures.keys()]).toHaveLength(1);
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(pool.ids.filter((id) => pool.status(id) === 'running')).toHaveLength(1);
+    await pool.stopAll();
+  });
+
+  it('shares rate-limit buckets between accounts only when asked to', async () => {
+    const transport = loginTransport().route('GET /v1/thread', { data: [] });
+    const accounts = [
+      { id: 'ann', username: 'ann', password: 'pw-ann' },
+      { id: 'bob', username: 'bob', password: 'pw-bob' },
+    ];
+    const shared = new ClientPool({ connect: false, rateLimiting: 'shared', defaults: { transport, sessionMonitor: false }, accounts });
+    const isolated = new ClientPool({ connect: false, defaults: { transport, sessionMonitor: false }, accounts });
+
+    for (const pool of [shared, isolated]) {
+      await pool.get('ann').http.get('/v1/thread');
+      await pool.get('bob').http.get('/v1/thread');
+    }
+
+    expect(shared.get('bob').http.getRateLimits()[0].priorities.normal.started).toBe(2);
+    expect(isolated.get('bob').http.getRateLimits()[0].priorities.normal.started).toBe(1);
+  });
+
+  it('stops the session monitor and outbox retries when an account is stopped or removed', async () => {
+    const pool = createPool();
+    await pool.startAll();
+    const ann = pool.get('ann');
+    const bob = pool.get('bob');
+    const closeOutbox = vi.spyOn(bob.outbox!, 'close');
+    expect(ann.sessionMonitor?.running).toBe(true);
+
+    await pool.stop('ann');
+    await pool.remove('bob');
+
+    expect(pool.status('ann')).toBe('stopped');
+    expect(ann.sessionMonitor?.running).toBe(false);
+    expect(bob.sessionMonitor?.running).toBe(false);
+    expect(closeOutbox).toHaveBeenCalled();
+    expect(pool.has('bob')).toBe(false);
+
+    await pool.start('ann');
+    expect(ann.sessionMonitor?.running).toBe(true);
+    await pool.stopAll();
+  });
+
+  it('stops gateway reconnects for an account that failed to connect', async () => {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise((resolve) => server.once('listening', resolve));
+    const gatewayUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/v1/ws`;
+    await new Promise((resolve) => server.close(resolve));
+
+    const pool = new ClientPool({
+      defaults: { transport: loginTransport(), sessionMonitor: false, gatewayUrl, reconnect: { reconnectDelayMs: 5 } },
+      accounts: [{ id: 'ann', username: 'ann', password: 'pw-ann' }],
+    });
+    pool.on('error', () => {});
+    const reconnects: string[] = [];
+    pool.on('reconnecting', (_event: unknown, id: string) => reconnects.push(id));
+
+    await expect(pool.start('ann')).rejects.toThrow();
+    expect(pool.status('ann')).toBe('failed');
+    await pool.remove('ann');
+    const seen = reconnects.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(reconnects).toHaveLength(seen);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { CookieJar } from '../src/auth/CookieJar.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+
+describe('CookieJar', () => {
+  it('applies Set-Cookie headers and reports what changed', () => {
+    const jar = new CookieJar();
+
+    expect(jar.applyResponseHeaders({ 'set-cookie': ['interpals_sessid=a; Path=/; HttpOnly', 'lang=en'] })).toEqual([
+      'interpals_sessid',
+      'lang',
+    ]);
+    expect(jar.applyResponseHeaders({ 'set-cookie': 'lang=en' })).toEqual([]);
+    expect(jar.toHeader()).toBe('interpals_sessid=a; lang=en');
+  });
+
+  it('tracks expiry, preferring Max-Age over Expires', () => {
+    const jar = new CookieJar();
+    const inAnHour = new Date(Date.now() + 3_600_000).toUTCString();
+
+    jar.setCookie(`interpals_sessid=a; Expires=${inAnHour}; Max-Age=60`);
+    const expiresIn = jar.getExpiry('interpals_sessid')!.getTime() - Date.now();
+
+    expect(expiresIn).toBeGreaterThan(55_000);
+    expect(expiresIn).toBeLessThanOrEqual(60_000);
+  });
+
+  it('deletes cookies that are cleared or already expired', () => {
+    const jar = new CookieJar();
+    jar.set('a', '1');
+    jar.set('b', '2');
+    jar.set('c', '3', Date.now() - 1);
+
+    expect(jar.setCookie('a=; Max-Age=0')).toBe(true);
+    expect(jar.setCookie(`b=2; Expires=${new Date(0).toUTCString()}`)).toBe(true);
+    expect(jar.list()).toEqual([]);
+    expect(jar.toJSON()).toEqual({});
+  });
+});
+
+describe('rotated session cookies', () => {
+  it('are picked up from any API response and sent on the next request', async () => {
+    const auth = new AuthManager();
+    auth.importSession('old');
+    const transport = new MockTransport()
+      .route('GET /v1/thread', { data: [], headers: { 'set-cookie': ['interpals_sessid=new; Path=/'] } })
+      .route('GET /v1/counters', { data: {} });
+    const http = new HttpClient(auth, { transport, minRequestIntervalMs: 0 });
+    const updates: string[][] = [];
+    http.on('sessionUpdated', (_session: unknown, cookies: string[]) => updates.push(cookies));
+
+    await http.get('/v1/thread');
+    await http.get('/v1/counters');
+
+    expect(updates).toEqual([['interpals_sessid']]);
+    expect(auth.exportSession().sessionCookie).toBe('new');
+    expect(transport.callsTo('GET /v1/counters')[0].headers.Cookie).toContain('interpals_sessid=new');
+  });
+});
@@ -0,0 +1,107 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CallbackCredentialProvider,
+  ChainCredentialProvider,
+  EnvCredentialProvider,
+  FileCredentialProvider,
+  parseDotEnv,
+  toCredentialProvider,
+} from '../src/auth/credentials.js';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { CredentialsError, ValidationError } from '../src/errors.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'interpal-credentials-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('credential providers', () => {
+  it('reads environment variables on every call', async () => {
+    const provider = new EnvCredentialProvider({ usernameKey: 'TEST_IP_USER', passwordKey: 'TEST_IP_PASS' });
+    try {
+      await expect(provider.getCredentials()).resolves.toBeNull();
+      process.env.TEST_IP_USER = 'ann';
+      await expect(provider.getCredentials()).rejects.toThrow('TEST_IP_PASS is missing');
+      process.env.TEST_IP_PASS = 'pw';
+      await expect(provider.getCredentials()).resolves.toEqual({ username: 'ann', password: 'pw' });
+    } finally {
+      delete process.env.TEST_IP_USER;
+      delete process.env.TEST_IP_PASS;
+    }
+  });
+
+  it('reads JSON and .env files and treats a missing file as empty', async () => {
+    await fs.writeFile(join(dir, 'creds.json'), JSON.stringify({ username: 'ann', password: 'pw' }));
+    await fs.writeFile(join(dir, 'creds.env'), '# comment\nexport INTERPALS_USERNAME=bob\nINTERPALS_PASSWORD="p w"\n');
+    await fs.writeFile(join(dir, 'broken.json'), '{');
+
+    await expect(new FileCredentialProvider(join(dir, 'creds.json')).getCredentials()).resolves.toEqual({ username: 'ann', password: 'pw' });
+    await expect(new FileCredentialProvider(join(dir, 'creds.env')).getCredentials()).resolves.toEqual({ username: 'bob', password: 'p w' });
+    await expect(new FileCredentialProvider(join(dir, 'missing.json')).getCredentials()).resolves.toBeNull();
+    await expect(new FileCredentialProvider(join(dir, 'broken.json')).getCredentials()).rejects.toBeInstanceOf(CredentialsError);
+  });
+
+  it('parses .env values', () => {
+    expect(parseDotEnv("A=1\n  B = two # note\nC='#3'\n#D=4")).toEqual({ A: '1', B: 'two', C: '#3' });
+  });
+
+  it('chains providers in order and stops at a failing one', async () => {
+    const empty = new CallbackCredentialProvider(() => null, 'empty');
+    const found = new CallbackCredentialProvider(() => ({ username: 'ann', password: 'pw' }), 'found');
+    const failing = new CallbackCredentialProvider(() => {
+      throw new Error('vault sealed');
+    }, 'vault');
+
+    await expect(new ChainCredentialProvider([empty, found]).getCredentials()).resolves.toEqual({ username: 'ann', password: 'pw' });
+    await expect(new ChainCredentialProvider([failing, found]).getCredentials()).rejects.toMatchObject({ provider: 'vault' });
+    expect(toCredentialProvider([() => null, found])).toBeInstanceOf(ChainCredentialProvider);
+  });
+});
+
+describe('InterpalClient credentials', () => {
+  const setup = () => {
+    const transport = new MockTransport().route('POST /v1/token', {
+      data: { auth_token: 'token' },
+      headers: { 'set-cookie': ['interpals_sessid=abc; Path=/'] },
+    });
+    const client = new InterpalClient({
+      transport,
+      sessionMonitor: false,
+      credentials: () => ({ username: 'provider-user', password: 'provider-pw' }),
+    });
+    const sentForm = () => new URLSearchParams(transport.callsTo('POST /v1/token').at(-1)?.data as URLSearchParams);
+    return { client, sentForm };
+  };
+
+  it('logs in with the provider when no credentials are passed', async () => {
+    const { client, sentForm } = setup();
+
+    await client.login();
+    expect(sentForm().get('username')).toBe('provider-user');
+    expect(sentForm().get('password')).toBe('provider-pw');
+  });
+
+  it('uses an explicit pair as given', async () => {
+    const { client, sentForm } = setup();
+
+    await client.login('ann', 'pw');
+    expect(sentForm().get('username')).toBe('ann');
+    expect(sentForm().get('password')).toBe('pw');
+  });
+
+  it('rejects a username without a password instead of borrowing the provider password', async () => {
+    const { client, sentForm } = setup();
+
+    await expect(client.login('ann')).rejects.toBeInstanceOf(ValidationError);
+    expect(sentForm().get('username')).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { RequestAbortedError } from '../src/errors.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+
+const delayed = (data: unknown, ms = 20) => () => new Promise<{ data: unknown }>((resolve) => setTimeout(() => resolve({ data }), ms));
+
+const createClient = (transport: MockTransport, dedupeGets?: boolean) =>
+  new HttpClient(new AuthManager(), { transport, minRequestIntervalMs: 0, dedupeGets });
+
+describe('GET coalescing', () => {
+  it('shares one request between identical concurrent GETs', async () => {
+    const transport = new MockTransport().route('GET /v1/thread', delayed([1]));
+    const http = createClient(transport);
+
+    const results = await Promise.all([
+      http.get('/v1/thread', { limit: 10, offset: 0 }),
+      http.get('/v1/thread', { offset: 0, limit: 10 }),
+    ]);
+
+    expect(results).toEqual([[1], [1]]);
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it('sends separate requests for different params, POSTs or dedupe: false', async () => {
+    const transport = new MockTransport().route('GET /v1/thread', delayed([])).route('POST /v1/thread', delayed({}));
+    const http = createClient(transport);
+
+    await Promise.all([
+      http.get('/v1/thread', { limit: 1 }),
+      http.get('/v1/thread', { limit: 2 }),
+      http.get('/v1/thread', { limit: 2 }, { dedupe: false }),
+      http.post('/v1/thread', {}),
+      http.post('/v1/thread', {}),
+    ]);
+
+    expect(transport.callsTo('GET /v1/thread')).toHaveLength(3);
+    expect(transport.callsTo('POST /v1/thread')).toHaveLength(2);
+  });
+
+  it('keeps the shared request going until every caller has aborted', async () => {
+    const transport = new MockTransport().route('GET /v1/thread', delayed(['done'], 30));
+    const http = createClient(transport);
+    const controller = new AbortController();
+
+    const abandoned = http.get('/v1/thread', undefined, { signal: controller.signal });
+    const kept = http.get('/v1/thread');
+    controller.abort();
+
+    await expect(abandoned).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(kept).resolves.toEqual(['done']);
+    expect(transport.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,65 @@
+import type { AddressInfo } from 'node:net';
+import { describe, expect, it } from 'vitest';
+import { WebSocketServer } from 'ws';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { API_BASE_URL, ENDPOINT_PROFILES, WEBSOCKET_URL } from '../src/constants.js';
+import { ValidationError } from '../src/errors.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import { resolveEndpoints } from '../src/utils/endpoints.js';
+
+describe('resolveEndpoints', () => {
+  it('uses the proxied profile by default and each profile its own URLs', () => {
+    expect(resolveEndpoints()).toEqual({ profile: 'proxied', apiBaseUrl: API_BASE_URL, gatewayUrl: WEBSOCKET_URL });
+    expect(resolveEndpoints({ profile: 'direct' })).toEqual({ profile: 'direct', ...ENDPOINT_PROFILES.direct });
+    expect(resolveEndpoints({ profile: 'local' })).toEqual({
+      profile: 'local',
+      apiBaseUrl: 'http://localhost:8080',
+      gatewayUrl: 'ws://localhost:8080/v1/ws',
+    });
+  });
+
+  it('lets apiBaseUrl and gatewayUrl override the profile, without trailing slashes', () => {
+    expect(
+      resolveEndpoints({ profile: 'local', apiBaseUrl: 'https://api.example.test/', gatewayUrl: 'wss://ws.example.test/v1/ws' }),
+    ).toEqual({ profile: 'local', apiBaseUrl: 'https://api.example.test', gatewayUrl: 'wss://ws.example.test/v1/ws' });
+  });
+
+  it('rejects unknown profiles, relative URLs and the wrong protocols', () => {
+    expect(() => resolveEndpoints({ profile: 'staging' as 'local' })).toThrow(ValidationError);
+    expect(() => resolveEndpoints({ apiBaseUrl: '/v1' })).toThrow('apiBaseUrl must be an absolute URL');
+    expect(() => resolveEndpoints({ apiBaseUrl: 'ws://api.example.test' })).toThrow('apiBaseUrl must use http: or https:');
+    expect(() => resolveEndpoints({ gatewayUrl: 'https://ws.example.test' })).toThrow('gatewayUrl must use ws: or wss:');
+  });
+});
+
+describe('InterpalClient endpoints', () => {
+  it('fails at construction when the endpoints are invalid', () => {
+    expect(() => new InterpalClient({ profile: 'staging' as 'local' })).toThrow(ValidationError);
+    expect(() => new InterpalClient({ gatewayUrl: 'http://ws.example.test' })).toThrow(ValidationError);
+  });
+
+  it('connects the gateway to the configured gatewayUrl', async () => {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise((resolve) => server.once('listening', resolve));
+    const paths: string[] = [];
+    server.on('connection', (_socket, request) => paths.push(request.url ?? ''));
+
+    const client = new InterpalClient({
+      transport: new MockTransport(),
+      sessionCookie: 'abc',
+      authToken: 'token',
+      sessionMonitor: false,
+      profile: 'local',
+      gatewayUrl: `ws://127.0.0.1:${(server.address() as AddressInfo).port}/gateway`,
+    });
+    try {
+      await client.initialize();
+      await client.connect();
+      expect(client.endpoints.apiBaseUrl).toBe('http://localhost:8080');
+      expect(paths).toEqual([expect.stringMatching(/^\/gateway\?token=token(&|$)/)]);
+    } finally {
+      await client.disconnect();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { NotFoundError, PermissionError, RateLimitError, ServerError } from '../src/errors.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+
+const createClient = (transport: MockTransport) =>
+  new HttpClient(new AuthManager(), { transport, maxRetries: 0, minRequestIntervalMs: 0 });
+
+describe('error mapping', () => {
+  it('maps statuses to typed errors with request context', async () => {
+    const transport = new MockTransport()
+      .route('GET /v1/profile/:id', {
+        status: 404,
+        headers: { 'x-request-id': 'req-1' },
+        data: { error: { code: 'user_not_found', message: 'No such user' } },
+      })
+      .route('GET /v1/thread', { status: 403, data: { message: 'Blocked' } })
+      .route('GET /v1/counters', { status: 502 });
+    const http = createClient(transport);
+
+    const notFound = await http.get('/v1/profile/42').catch((error: unknown) => error);
+    expect(notFound).toBeInstanceOf(NotFoundError);
+    expect(notFound).toMatchObject({
+      message: 'Resource not found: No such user',
+      statusCode: 404,
+      method: 'GET',
+      endpoint: '/v1/profile/42',
+      requestId: 'req-1',
+      errorCode: 'user_not_found',
+    });
+    await expect(http.get('/v1/thread')).rejects.toBeInstanceOf(PermissionError);
+    await expect(http.get('/v1/counters')).rejects.toBeInstanceOf(ServerError);
+  });
+
+  it('reads Retry-After as seconds or as an HTTP date', async () => {
+    const transport = new MockTransport()
+      .route('GET /v1/a', { status: 429, headers: { 'retry-after': '7' } })
+      .route('GET /v1/b', { status: 429, headers: { 'retry-after': new Date(Date.now() + 120_000).toUTCString() } });
+    // Separate clients, so the first 429 does not hold up the second request in the shared bucket.
+    const seconds = (await createClient(transport).get('/v1/a').catch((error: unknown) => error)) as RateLimitError;
+    const date = (await createClient(transport).get('/v1/b').catch((error: unknown) => error)) as RateLimitError;
+
+    expect(seconds).toBeInstanceOf(RateLimitError);
+    expect(seconds.retryAfter).toBe(7);
+    expect(date.retryAfter).toBeGreaterThan(115);
+    expect(date.retryAfter).toBeLessThanOrEqual(120);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { challengeAnswerFields, parseLoginChallenge } from '../src/auth/challenges.js';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { LoginChallengeError } from '../src/errors.js';
+import { MockTransport, type MockRequest } from '../src/http/MockTransport.js';
+
+const formOf = (request: MockRequest) => new URLSearchParams(request.data as URLSearchParams);
+
+const loggedIn = { data: { auth_token: 'token' }, headers: { 'set-cookie': ['interpals_sessid=abc'] } };
+
+describe('parseLoginChallenge', () => {
+  it('recognises challenge objects, names and error codes', () => {
+    expect(parseLoginChallenge({ challenge: { type: 'captcha', site_key: 'k', token: 't' } })).toEqual({
+      type: 'captcha',
+      params: { site_key: 'k' },
+      token: 't',
+      message: undefined,
+    });
+    expect(parseLoginChallenge({ challenge: 'otp_required', challenge_token: 't', masked_email: 'a***' })).toMatchObject({
+      type: 'two_factor',
+      params: { masked_email: 'a***' },
+      token: 't',
+    });
+    expect(parseLoginChallenge({ error: { code: 'email_not_verified', message: 'Check your inbox' } })).toMatchObject({
+      type: 'email_verification',
+      message: 'Check your inbox',
+    });
+    expect(parseLoginChallenge({ error: 'Invalid password' })).toBeNull();
+  });
+
+  it('builds answer fields for the challenge type', () => {
+    expect(challengeAnswerFields({ type: 'captcha', params: {}, token: 't' }, 'solution')).toEqual({
+      challenge_type: 'captcha',
+      challenge_token: 't',
+      captcha_response: 'solution',
+    });
+    expect(challengeAnswerFields({ type: 'two_factor', params: {} }, '123456')).toEqual({
+      challenge_type: 'two_factor',
+      verification_code: '123456',
+    });
+  });
+});
+
+describe('AuthManager login challenges', () => {
+  it('answers each challenge and resends earlier answers', async () => {
+    const transport = new MockTransport().route('POST /v1/token', (request) => {
+      const form = formOf(request);
+      if (!form.get('captcha_response')) return { status: 403, data: { challenge: { type: 'captcha', token: 'c1' } } };
+      if (!form.get('verification_code')) return { status: 403, data: { challenge: 'two_factor', challenge_token: 'c2' } };
+      return loggedIn;
+    });
+    const onChallenge = vi.fn((challenge: { type: string }) => (challenge.type === 'captcha' ? 'solved' : '123456'));
+    const auth = new AuthManager(undefined, { transport, onChallenge });
+
+    await expect(auth.login('ann', 'pw')).resolves.toMatchObject({ sessionCookie: 'abc' });
+
+    expect(onChallenge.mock.calls.map(([challenge]) => challenge.type)).toEqual(['captcha', 'two_factor']);
+    const last = formOf(transport.calls.at(-1) as MockRequest);
+    expect(last.get('captcha_response')).toBe('solved');
+    expect(last.get('verification_code')).toBe('123456');
+  });
+
+  it('fails with LoginChallengeError when a challenge is not answered or keeps coming back', async () => {
+    const transport = new MockTransport().route('POST /v1/token', { status: 403, data: { challenge: 'captcha' } });
+
+    await expect(new AuthManager(undefined, { transport }).login('ann', 'pw')).rejects.toBeInstanceOf(LoginChallengeError);
+    const stubborn = new AuthManager(undefined, { transport, onChallenge: () => 'wrong' });
+    await expect(stubborn.login('ann', 'pw')).rejects.toThrow('Login challenge was not passed');
+  });
+});
+
+describe('InterpalClient login challenges', () => {
+  it('emits loginChallenge and uses the onChallenge option', async () => {
+    const transport = new MockTransport().route('POST /v1/token', (request) =>
+      formOf(request).get('verification_code') ? loggedIn : { status: 403, data: { challenge: 'email_verification' } },
+    );
+    const client = new InterpalClient({ transport, sessionMonitor: false, onChallenge: () => '999' });
+    const seen = vi.fn();
+    client.on('loginChallenge', seen);
+
+    await client.login('ann', 'pw');
+
+    expect(seen).toHaveBeenCalledWith(expect.objectContaining({ type: 'email_verification' }));
+    expect(client.isAuthenticated).toBe(true);
+  });
+});
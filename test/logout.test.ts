@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { TransportError } from '../src/errors.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import { MemoryOutboxStore } from '../src/outbox/OutboxStore.js';
+import { MemorySessionStore } from '../src/session/SessionStore.js';
+
+const later = () => new Date(Date.now() + 60 * 60_000).toISOString();
+
+describe('AuthManager logout', () => {
+  it('ends the session on the server and forgets it locally', async () => {
+    const transport = new MockTransport().route('DELETE /v1/token', { status: 204 });
+    const auth = new AuthManager(undefined, { transport });
+    auth.importSession('abc', 'token');
+
+    await expect(auth.logout()).resolves.toBe(true);
+    expect(transport.calls[0]?.headers).toMatchObject({ Cookie: 'interpals_sessid=abc', 'X-Auth-Token': 'token' });
+    expect(auth.isAuthenticated).toBe(false);
+  });
+
+  it('treats a 401 as confirmed and an unreachable server as unconfirmed', async () => {
+    const expired = new AuthManager(undefined, { transport: new MockTransport().route('DELETE /v1/token', { status: 401 }) });
+    expired.importSession('abc');
+    await expect(expired.logout()).resolves.toBe(true);
+
+    const offline = new AuthManager(undefined, {
+      transport: new MockTransport().route('DELETE /v1/token', () => {
+        throw new TransportError('offline', { code: 'ECONNREFUSED' });
+      }),
+    });
+    offline.importSession('abc');
+    await expect(offline.logout()).resolves.toBe(false);
+    expect(offline.isAuthenticated).toBe(false);
+  });
+});
+
+describe('InterpalClient logout', () => {
+  it('drops pending messages, the stored session and cached responses', async () => {
+    const outboxStore = new MemoryOutboxStore();
+    await outboxStore.put({
+      tmpId: 'tmp-1',
+      threadId: 't1',
+      payload: { thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' },
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: later(),
+    });
+    const sessionStore = new MemorySessionStore();
+    await sessionStore.save({ sessionCookie: 'abc', username: 'ann' });
+    const transport = new MockTransport()
+      .route('GET /v1/account/self', { data: { id: '1' } })
+      .route('GET /v1/country', { data: ['NZ'] })
+      .route('DELETE /v1/token', { status: 204 });
+    const client = new InterpalClient({
+      transport,
+      sessionStore,
+      sessionMonitor: false,
+      outbox: { store: outboxStore },
+      responseCache: { defaultTtlMs: 60_000 },
+    });
+    const events: unknown[] = [];
+    client.on('loggedOut', (event) => events.push(event));
+
+    await client.initialize();
+    expect(client.outbox?.size).toBe(1);
+    await client.http.get('/v1/country');
+    await client.http.get('/v1/country');
+    expect(transport.callsTo('GET /v1/country')).toHaveLength(1);
+
+    await client.logout();
+
+    expect(events).toEqual([{ serverConfirmed: true }]);
+    expect(client.isAuthenticated).toBe(false);
+    expect(client.outbox?.size).toBe(0);
+    expect(await outboxStore.list()).toEqual([]);
+    expect(await sessionStore.load()).toBeNull();
+    await client.http.get('/v1/country');
+    expect(transport.callsTo('GET /v1/country')).toHaveLength(2);
+    expect(transport.callsTo('POST /v1/message')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { ServerError } from '../src/errors.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import type { HttpMiddleware } from '../src/http/middleware.js';
+
+const tracing = (name: string, log: string[]): HttpMiddleware => async (ctx, next) => {
+  log.push(`${name}:before`);
+  const response = await next();
+  log.push(`${name}:after`);
+  return response;
+};
+
+describe('HttpClient middleware', () => {
+  it('runs middleware in registration order around the transport', async () => {
+    const log: string[] = [];
+    const transport = new MockTransport().route('GET /v1/thread', () => {
+      log.push('transport');
+      return { data: [] };
+    });
+    const http = new HttpClient(new AuthManager(), {
+      transport,
+      minRequestIntervalMs: 0,
+      middleware: [tracing('a', log)],
+    }).use(tracing('b', log));
+
+    await http.get('/v1/thread');
+
+    expect(log).toEqual(['a:before', 'b:before', 'transport', 'b:after', 'a:after']);
+  });
+
+  it('lets middleware rewrite requests and answer without calling next', async () => {
+    const transport = new MockTransport().route('GET /v1/thread', ({ headers }) => ({ data: { tag: headers['X-Tag'] } }));
+    const http = new HttpClient(new AuthManager(), { transport, minRequestIntervalMs: 0 })
+      .use(async (ctx, next) => {
+        ctx.request.headers['X-Tag'] = 'set-by-middleware';
+        return next();
+      })
+      .use(async (ctx, next) =>
+        ctx.request.endpoint === '/v1/stubbed' ? { status: 200, headers: {}, data: { stubbed: true } } : next(),
+      );
+
+    await expect(http.get('/v1/thread')).resolves.toEqual({ tag: 'set-by-middleware' });
+    await expect(http.get('/v1/stubbed')).resolves.toEqual({ stubbed: true });
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it('retries inside user middleware and maps the final response outside it', async () => {
+    const log: string[] = [];
+    const transport = new MockTransport().route('GET /v1/thread', { status: 500 });
+    const http = new HttpClient(new AuthManager(), { transport, minRequestIntervalMs: 0, maxRetries: 2 }).use(
+      tracing('user', log),
+    );
+
+    await expect(http.get('/v1/thread')).rejects.toBeInstanceOf(ServerError);
+    expect(transport.calls).toHaveLength(3);
+    expect(log.filter((entry) => entry === 'user:before')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { TransportError, ValidationError } from '../src/errors.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+
+describe('MockTransport', () => {
+  it('matches routes by method and path, capturing parameters', async () => {
+    const transport = new MockTransport().route('GET /v1/profile/:id', ({ routeParams, params }) => ({
+      data: { id: routeParams.id, fields: params?.fields },
+    }));
+
+    const response = await transport.request({ method: 'GET', url: '/v1/profile/42?fields=name', headers: {} });
+
+    expect(response).toEqual({ status: 200, headers: {}, data: { id: '42', fields: 'name' } });
+    expect(transport.callsTo('GET /v1/profile/:id')).toMatchObject([{ path: '/v1/profile/42', status: 200 }]);
+  });
+
+  it('prefers later routes and honours times', async () => {
+    const transport = new MockTransport()
+      .route('POST /v1/message', { data: { ok: true } })
+      .route('POST /v1/message', { status: 429, headers: { 'Retry-After': '1' } }, { times: 1 });
+
+    const first = await transport.request({ method: 'POST', url: '/v1/message', headers: {} });
+    const second = await transport.request({ method: 'POST', url: '/v1/message', headers: {} });
+
+    expect(first).toMatchObject({ status: 429, headers: { 'retry-after': '1' } });
+    expect(second).toMatchObject({ status: 200, data: { ok: true } });
+  });
+
+  it('answers unmatched requests with 404 and wraps handler failures', async () => {
+    const transport = new MockTransport().route('GET /v1/boom', () => {
+      throw new Error('kaput');
+    });
+
+    await expect(transport.request({ method: 'GET', url: '/v1/nothing', headers: {} })).resolves.toMatchObject({ status: 404 });
+    await expect(transport.request({ method: 'GET', url: '/v1/boom', headers: {} })).rejects.toBeInstanceOf(TransportError);
+    expect(() => transport.route('FETCH /v1', {})).toThrow(ValidationError);
+  });
+
+  it('rejects with ERR_CANCELED when the request is aborted', async () => {
+    const transport = new MockTransport().route('GET /v1/slow', () => new Promise(() => {}));
+    const controller = new AbortController();
+
+    const pending = transport.request({ method: 'GET', url: '/v1/slow', headers: {}, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+  });
+
+  it('serves HttpClient requests with the session headers attached', async () => {
+    const auth = new AuthManager();
+    auth.importSession('abc', 'token');
+    const transport = new MockTransport().route('GET /v1/account/self', { data: { id: '1' } });
+    const http = new HttpClient(auth, { transport, minRequestIntervalMs: 0 });
+
+    await expect(http.get('/v1/account/self')).resolves.toEqual({ id: '1' });
+    expect(transport.calls[0].headers).toMatchObject({ Cookie: expect.stringContaining('interpals_sessid=abc') });
+  });
+});
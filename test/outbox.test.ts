@@ -0,0 +1,195 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { TransportError } from '../src/errors.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import { RateLimitBucket } from '../src/http/RateLimitBucket.js';
+import type { Message } from '../src/models/Message.js';
+import { MessageOutbox } from '../src/outbox/MessageOutbox.js';
+import { FileOutboxStore, MemoryOutboxStore, type OutboxEntry } from '../src/outbox/OutboxStore.js';
+
+const sent = { id: 'm1' } as unknown as Message;
+
+const pendingEntry = (overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  tmpId: 'tmp-1',
+  threadId: 't1',
+  payload: { thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' },
+  attempts: 0,
+  createdAt: new Date().toISOString(),
+  nextAttemptAt: new Date().toISOString(),
+  ...overrides,
+});
+
+describe('MessageOutbox', () => {
+  it('retries retryable failures and resolves once delivered', async () => {
+    const store = new MemoryOutboxStore();
+    const attempts: number[] = [];
+    const outbox = new MessageOutbox(
+      async (entry) => {
+        attempts.push(entry.attempts);
+        if (entry.attempts < 3) throw new TransportError('offline', { code: 'ECONNREFUSED' });
+        return sent;
+      },
+      { store, baseDelayMs: 1 },
+    );
+
+    await expect(outbox.enqueue('t1', { thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' })).resolves.toBe(sent);
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('saves the attempt count before sending so a crash mid-send is remembered', async () => {
+    const store = new MemoryOutboxStore();
+    const outbox = new MessageOutbox(() => new Promise<Message>(() => {}), { store });
+
+    void outbox.enqueue('t1', { thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(await store.list()).toMatchObject([{ tmpId: 'tmp-1', attempts: 1 }]);
+    outbox.close();
+  });
+
+  it('restores entries from an earlier run and counts on from their attempts', async () => {
+    const store = new MemoryOutboxStore();
+    await store.put(pendingEntry({ attempts: 1 }));
+    const delivered: OutboxEntry[] = [];
+    const outbox = new MessageOutbox(async (entry) => {
+      delivered.push(entry);
+      return sent;
+    }, { store });
+
+    const sentEvent = new Promise((resolve) => outbox.once('messageSent', resolve));
+    await outbox.restore();
+    await sentEvent;
+
+    expect(delivered).toMatchObject([{ tmpId: 'tmp-1', attempts: 2 }]);
+    expect(outbox.wasDelivered('tmp-1')).toBe(true);
+  });
+
+  it('resumes retries stopped by close() on the next restore()', async () => {
+    let online = false;
+    const outbox = new MessageOutbox(
+      async () => {
+        if (!online) throw new TransportError('offline', { code: 'ECONNREFUSED' });
+        return sent;
+      },
+      { store: new MemoryOutboxStore(), baseDelayMs: 5 },
+    );
+
+    const result = outbox.enqueue('t1', { thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    outbox.close();
+    online = true;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(outbox.size).toBe(1);
+
+    await outbox.restore();
+    await expect(result).resolves.toBe(sent);
+  });
+
+  it('completes a pending entry when the gateway echoes its tmp_id', async () => {
+    const outbox = new MessageOutbox(() => new Promise<Message>(() => {}), { store: new MemoryOutboxStore() });
+
+    const result = outbox.enqueue('t1', { thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await expect(outbox.acknowledge('tmp-1', sent)).resolves.toBe(true);
+    await expect(result).resolves.toBe(sent);
+    expect(outbox.size).toBe(0);
+  });
+});
+
+describe('InterpalClient outbox', () => {
+  it('checks the thread before re-posting a message restored after a crash mid-send', async () => {
+    const store = new MemoryOutboxStore();
+    await store.put(pendingEntry({ attempts: 1 }));
+    const transport = new MockTransport()
+      .route('GET /v1/thread/:id', { data: [{ id: 'm1', thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' }] })
+      .route('POST /v1/message', { data: { id: 'm2', thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' } });
+    const client = new InterpalClient({ transport, sessionCookie: 'abc', sessionMonitor: false, outbox: { store } });
+
+    const sentEvent = new Promise<Message>((resolve) => client.once('messageSent', resolve));
+    await client.initialize();
+
+    expect((await sentEvent).id).toBe('m1');
+    expect(transport.callsTo('GET /v1/thread/:id')).toHaveLength(1);
+    expect(transport.callsTo('POST /v1/message')).toHaveLength(0);
+  });
+});
+
+describe('MessageManager send', () => {
+  const delivered = { id: 'm1', thread_id: 't1', message: 'hi', tmp_id: 'tmp-1' };
+  const rateLimitBuckets = () =>
+    new Map([
+      ['global', new RateLimitBucket('global', 0)],
+      ['messages', new RateLimitBucket('messages', 0)],
+    ]);
+  const timingOutPost = () => {
+    let posts = 0;
+    return () => {
+      posts += 1;
+      if (posts === 1) throw new TransportError('timeout', { code: 'ECONNABORTED' });
+      return { data: delivered };
+    };
+  };
+
+  it('checks the thread instead of posting again after a timeout', async () => {
+    const transport = new MockTransport()
+      .route('GET /v1/thread/:id', { data: [delivered] })
+      .route('POST /v1/message', timingOutPost());
+    const client = new InterpalClient({ transport, sessionCookie: 'abc', sessionMonitor: false, rateLimitBuckets: rateLimitBuckets() });
+    await client.initialize();
+
+    await expect(client.messages.send('t1', { message: 'hi', tmp_id: 'tmp-1' })).resolves.toMatchObject({ id: 'm1' });
+    expect(transport.callsTo('POST /v1/message')).toHaveLength(1);
+    expect(transport.callsTo('GET /v1/thread/:id')).toHaveLength(1);
+  });
+
+  it('does not share a thread fetch that started before the post', async () => {
+    let fetches = 0;
+    const transport = new MockTransport()
+      .route('GET /v1/thread/:id', async () => {
+        fetches += 1;
+        if (fetches > 1) return { data: [delivered] };
+        await new Promise((resolve) => setTimeout(resolve, 800));
+        return { data: [] };
+      })
+      .route('POST /v1/message', timingOutPost());
+    const client = new InterpalClient({ transport, sessionCookie: 'abc', sessionMonitor: false, rateLimitBuckets: rateLimitBuckets() });
+    await client.initialize();
+
+    const earlier = client.http.get('/v1/thread/t1', { limit: 20 });
+    await expect(client.messages.send('t1', { message: 'hi', tmp_id: 'tmp-1' })).resolves.toMatchObject({ id: 'm1' });
+    await earlier;
+
+    expect(transport.callsTo('POST /v1/message')).toHaveLength(1);
+    expect(transport.callsTo('GET /v1/thread/:id')).toHaveLength(2);
+  });
+});
+
+describe('FileOutboxStore', () => {
+  it('keeps entries across instances and leaves no temporary files behind', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'interpal-outbox-'));
+    const file = join(dir, 'outbox.json');
+    try {
+      const store = new FileOutboxStore(file);
+      await Promise.all([
+        store.put(pendingEntry()),
+        store.put(pendingEntry({ tmpId: 'tmp-2' })),
+        store.put(pendingEntry({ tmpId: 'tmp-3' })),
+      ]);
+      await store.delete('tmp-3');
+
+      expect((await new FileOutboxStore(file).list()).map((entry) => entry.tmpId)).toEqual(['tmp-1', 'tmp-2']);
+      expect((await fs.readdir(dir)).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+
+      await store.delete('tmp-1');
+      await store.delete('tmp-2');
+      await expect(fs.access(file)).rejects.toThrow();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import { RateLimitBucket, defaultBucketResolver, type RateLimitInfo } from '../src/http/RateLimitBucket.js';
+
+const response = (headers: Record<string, string>, status = 200) => ({ status, headers, data: undefined });
+
+describe('defaultBucketResolver', () => {
+  it('routes requests to their bucket', () => {
+    expect(defaultBucketResolver('POST', '/v1/message')).toBe('messages');
+    expect(defaultBucketResolver('GET', '/v1/message?thread_id=1')).toBe('global');
+    expect(defaultBucketResolver('GET', '/v1/profile/1')).toBe('profiles');
+    expect(defaultBucketResolver('GET', '/v1/search/user')).toBe('search');
+    expect(defaultBucketResolver('POST', '/v1/photo')).toBe('uploads');
+    expect(defaultBucketResolver('GET', '/v1/thread')).toBe('global');
+  });
+});
+
+describe('RateLimitBucket', () => {
+  it('reads the quota from X-RateLimit headers', () => {
+    const bucket = new RateLimitBucket('messages', 0);
+
+    expect(bucket.update(response({ 'x-ratelimit-limit': '10', 'x-ratelimit-remaining': '3' }))).toEqual({
+      exhausted: false,
+      retryAfterMs: undefined,
+    });
+    const { exhausted } = bucket.update(response({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset-after': '2' }));
+
+    expect(exhausted).toBe(true);
+    expect(bucket.toJSON()).toMatchObject({ name: 'messages', limit: 10, remaining: 0 });
+    expect(bucket.resetAt!.getTime() - Date.now()).toBeGreaterThan(1_500);
+  });
+
+  it('treats a 429 as exhausted and honours Retry-After', () => {
+    const bucket = new RateLimitBucket('global', 0);
+
+    expect(bucket.update(response({ 'retry-after': '3' }, 429))).toMatchObject({ exhausted: true, retryAfterMs: 3_000 });
+    expect(bucket.remaining).toBe(0);
+  });
+
+  it('holds queued requests until the reset time has passed', async () => {
+    const bucket = new RateLimitBucket('global', 0);
+    bucket.update(response({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset-after': '0.05' }));
+
+    const startedAt = Date.now();
+    await bucket.schedule(async () => undefined);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+    expect(bucket.remaining).toBeUndefined();
+  });
+});
+
+describe('request priorities', () => {
+  it('runs queued high-priority requests before normal and low ones', async () => {
+    const bucket = new RateLimitBucket('messages', 0);
+    const order: string[] = [];
+    let release!: () => void;
+    const blocker = bucket.schedule(() => new Promise<void>((resolve) => (release = resolve)));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const queued = (['low', 'normal', 'high'] as const).map((priority) =>
+      bucket.schedule(async () => {
+        order.push(priority);
+      }, priority),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(bucket.toJSON().priorities.low.queued).toBe(1);
+    release();
+    await Promise.all([blocker, ...queued]);
+
+    expect(order).toEqual(['high', 'normal', 'low']);
+    expect(bucket.toJSON().priorities.high).toMatchObject({ queued: 0, started: 1 });
+  });
+});
+
+describe('HttpClient rate limiting', () => {
+  it('emits rateLimited for the exhausted bucket only', async () => {
+    const transport = new MockTransport()
+      .route('POST /v1/message', { data: {}, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset-after': '60' } })
+      .route('GET /v1/profile/:id', { data: {} });
+    const http = new HttpClient(new AuthManager(), { transport, minRequestIntervalMs: 0 });
+    const events: RateLimitInfo[] = [];
+    http.on('rateLimited', (info: RateLimitInfo) => events.push(info));
+
+    await http.post('/v1/message', {});
+    // The profiles bucket is unaffected by the exhausted messages bucket.
+    await http.get('/v1/profile/1');
+
+    expect(events).toMatchObject([{ bucket: 'messages', remaining: 0, method: 'POST', endpoint: '/v1/message' }]);
+    expect(http.getRateLimits().map((bucket) => bucket.name).sort()).toEqual(['messages', 'profiles']);
+  });
+});
@@ -0,0 +1,79 @@
+import { Readable } from 'node:stream';
+import { describe, expect, it, vi } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { AuthenticationError } from '../src/errors.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport, type MockRequest } from '../src/http/MockTransport.js';
+
+const setup = () => {
+  const auth = new AuthManager();
+  auth.importSession('old');
+  const transport = new MockTransport().route('POST /v1/photo', ({ headers }: MockRequest) =>
+    headers.Cookie?.includes('interpals_sessid=new') ? { data: { ok: true } } : { status: 401 },
+  );
+  transport.route('GET /v1/account', ({ headers }: MockRequest) =>
+    headers.Cookie?.includes('interpals_sessid=new') ? { data: { ok: true } } : { status: 401 },
+  );
+  const refreshSession = vi.fn(async () => {
+    auth.importSession('new');
+    return true;
+  });
+  const http = new HttpClient(auth, { transport, refreshSession, minRequestIntervalMs: 0 });
+  return { transport, refreshSession, http };
+};
+
+describe('re-authentication', () => {
+  it('refreshes the session once on 401 and replays the request', async () => {
+    const { transport, refreshSession, http } = setup();
+
+    await expect(http.get('/v1/account')).resolves.toEqual({ ok: true });
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(transport.callsTo('GET /v1/account')).toHaveLength(2);
+  });
+
+  it('shares one refresh between concurrent 401s', async () => {
+    const { refreshSession, http } = setup();
+
+    await Promise.all([http.get('/v1/account', { a: 1 }), http.get('/v1/account', { b: 1 })]);
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays requests sent with retry: false, which the server rejected', async () => {
+    const { transport, refreshSession, http } = setup();
+
+    await expect(http.post('/v1/photo', 'form', undefined, { retry: false })).resolves.toEqual({ ok: true });
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(transport.callsTo('POST /v1/photo')).toHaveLength(2);
+  });
+
+  it('does not replay requests sent with a stream body', async () => {
+    const { transport, refreshSession, http } = setup();
+
+    await expect(http.post('/v1/photo', Readable.from(['chunk']))).rejects.toBeInstanceOf(AuthenticationError);
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(transport.callsTo('POST /v1/photo')).toHaveLength(1);
+  });
+
+  it('sends a message after logging in again when the session was rejected', async () => {
+    const transport = new MockTransport()
+      .route('POST /v1/token', { data: { auth_token: 'token' }, headers: { 'set-cookie': ['interpals_sessid=new'] } })
+      .route('POST /v1/message', ({ headers }: MockRequest) =>
+        headers.Cookie?.includes('interpals_sessid=new')
+          ? { data: { id: 'm1', thread_id: 't1', message: 'hi' } }
+          : { status: 401 },
+      );
+    const client = new InterpalClient({
+      transport,
+      sessionCookie: 'old',
+      username: 'ann',
+      password: 'pw',
+      sessionMonitor: false,
+    });
+    await client.initialize();
+
+    await expect(client.messages.send('t1', 'hi')).resolves.toMatchObject({ id: 'm1' });
+    expect(transport.callsTo('POST /v1/token')).toHaveLength(1);
+    expect(transport.callsTo('POST /v1/message')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,97 @@
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebSocketServer } from 'ws';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { WebSocketClient, type ReconnectingEvent } from '../src/websocket/WebSocketClient.js';
+
+const authenticated = () => {
+  const auth = new AuthManager();
+  auth.importSession('cookie', 'token');
+  return auth;
+};
+
+const listen = async (): Promise<WebSocketServer> => {
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise((resolve) => server.once('listening', resolve));
+  return server;
+};
+
+const urlOf = (server: WebSocketServer) => `ws://127.0.0.1:${(server.address() as AddressInfo).port}/v1/ws`;
+
+const closeServer = (server: WebSocketServer) => new Promise((resolve) => server.close(resolve));
+
+let client: WebSocketClient | undefined;
+
+afterEach(async () => {
+  await client?.disconnect();
+  client = undefined;
+});
+
+describe('WebSocketClient reconnect', () => {
+  it('backs off exponentially and gives up after maxReconnectAttempts', async () => {
+    const server = await listen();
+    const gatewayUrl = urlOf(server);
+    await closeServer(server);
+
+    client = new WebSocketClient(authenticated(), {
+      gatewayUrl,
+      reconnectDelayMs: 10,
+      maxReconnectDelayMs: 40,
+      maxReconnectAttempts: 4,
+    });
+    client.on('error', () => {});
+    const attempts: ReconnectingEvent[] = [];
+    client.on('reconnecting', (event: ReconnectingEvent) => attempts.push(event));
+    const failures: unknown[] = [];
+    const failed = new Promise((resolve) => client!.on('reconnectFailed', resolve));
+    client.on('reconnectFailed', (event) => failures.push(event));
+
+    await expect(client.connect()).rejects.toThrow();
+    await expect(failed).resolves.toEqual({ attempts: 4 });
+    // Give a second report, from the failed attempt's rejection, the chance to arrive.
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(failures).toEqual([{ attempts: 4 }]);
+    expect(attempts.map((event) => event.attempt)).toEqual([1, 2, 3, 4]);
+    // Equal jitter: each delay lies in the upper half of 10, 20, 40 and the 40 ms cap.
+    [10, 20, 40, 40].forEach((ceiling, index) => {
+      expect(attempts[index].delayMs).toBeGreaterThanOrEqual(ceiling / 2);
+      expect(attempts[index].delayMs).toBeLessThanOrEqual(ceiling);
+    });
+  });
+
+  it('starts the attempt count over after a stable connection, even once HELLO resets the heartbeat', async () => {
+    const server = await listen();
+    let connections = 0;
+    server.on('connection', (socket) => {
+      connections += 1;
+      socket.send(JSON.stringify({ op: 'HELLO', d: { heartbeat_interval: 60_000 } }));
+      // Each connection outlives stableConnectionMs before the server drops it.
+      setTimeout(() => socket.terminate(), 60);
+    });
+
+    client = new WebSocketClient(authenticated(), {
+      gatewayUrl: urlOf(server),
+      reconnectDelayMs: 5,
+      maxReconnectAttempts: 1,
+      stableConnectionMs: 20,
+    });
+    client.on('error', () => {});
+    const attempts: number[] = [];
+    client.on('reconnecting', (event: ReconnectingEvent) => attempts.push(event.attempt));
+    let gaveUp = false;
+    client.on('reconnectFailed', () => {
+      gaveUp = true;
+    });
+
+    await client.connect();
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    expect(connections).toBeGreaterThanOrEqual(3);
+    expect(attempts.every((attempt) => attempt === 1)).toBe(true);
+    expect(gaveUp).toBe(false);
+
+    await client.disconnect();
+    await closeServer(server);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { TransportError } from '../src/errors.js';
+import { redact } from '../src/utils/redact.js';
+
+describe('redact', () => {
+  it('masks secret keys in nested objects and form bodies', () => {
+    expect(redact({ headers: { Cookie: 'interpals_sessid=abc', Accept: 'json' } })).toEqual({
+      headers: { Cookie: '[REDACTED]', Accept: 'json' },
+    });
+    expect(redact(new URLSearchParams({ username: 'ann', password: 'hunter2' }))).toBe(
+      'username=ann&password=[REDACTED]',
+    );
+    expect(redact('GET /v1/ws?token=secret&x=1')).toBe('GET /v1/ws?token=[REDACTED]&x=1');
+    expect(redact('password=hunter2&username=ann&auth_token=t1')).toBe(
+      'password=[REDACTED]&username=ann&auth_token=[REDACTED]',
+    );
+    expect(redact('my_password=visible')).toBe('my_password=visible');
+  });
+
+  it('reduces errors to safe fields and drops their cause', () => {
+    const cause = Object.assign(new Error('Request failed'), {
+      config: { headers: { Cookie: 'interpals_sessid=abc' }, data: 'username=ann&password=hunter2' },
+      toJSON: () => ({ config: { data: 'password=hunter2' } }),
+    });
+    const error = new TransportError('socket hang up for interpals_sessid=abc', { code: 'ECONNRESET', cause });
+
+    const logged = JSON.stringify(redact({ error }));
+
+    expect(JSON.parse(logged)).toEqual({
+      error: { name: 'TransportError', message: 'socket hang up for interpals_sessid=[REDACTED]', code: 'ECONNRESET' },
+    });
+    expect(logged).not.toContain('hunter2');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport, type MockRequest } from '../src/http/MockTransport.js';
+
+const etagRoute = (version: { etag: string; data: unknown }) => ({ headers }: MockRequest) =>
+  headers['If-None-Match'] === version.etag
+    ? { status: 304, headers: { etag: version.etag } }
+    : { data: version.data, headers: { etag: version.etag } };
+
+describe('response cache', () => {
+  it('revalidates with If-None-Match and serves 304s from the cache', async () => {
+    const version = { etag: '"v1"', data: { name: 'ann' } };
+    const transport = new MockTransport().route('GET /v1/profile/:id', etagRoute(version));
+    const http = new HttpClient(new AuthManager(), { transport, minRequestIntervalMs: 0, cache: true });
+
+    await expect(http.get('/v1/profile/1')).resolves.toEqual({ name: 'ann' });
+    await expect(http.get('/v1/profile/1')).resolves.toEqual({ name: 'ann' });
+    expect(transport.calls.map((call) => call.status)).toEqual([200, 304]);
+    expect(transport.calls[1].headers['If-None-Match']).toBe('"v1"');
+
+    Object.assign(version, { etag: '"v2"', data: { name: 'bea' } });
+    await expect(http.get('/v1/profile/1')).resolves.toEqual({ name: 'bea' });
+  });
+
+  it('serves fresh entries without a request and skips noStore endpoints', async () => {
+    const transport = new MockTransport()
+      .route('GET /v1/countries', { data: ['fi'] })
+      .route('GET /v1/counters', { data: { unread: 1 }, headers: { etag: '"c"' } });
+    const http = new HttpClient(new AuthManager(), {
+      transport,
+      minRequestIntervalMs: 0,
+      cache: { rules: [{ match: '/v1/countries', ttlMs: 60_000 }, { match: /^\/v1\/counters/, ttlMs: 0, noStore: true }] },
+    });
+
+    await http.get('/v1/countries');
+    await http.get('/v1/countries');
+    await http.get('/v1/counters');
+    await http.get('/v1/counters');
+
+    expect(transport.callsTo('GET /v1/countries')).toHaveLength(1);
+    expect(transport.callsTo('GET /v1/counters').every((call) => !call.headers['If-None-Match'])).toBe(true);
+  });
+
+  it('drops the cached GET after a successful write to the same endpoint', async () => {
+    const transport = new MockTransport().route('GET /v1/settings', { data: { a: 1 } }).route('PUT /v1/settings', { data: {} });
+    const http = new HttpClient(new AuthManager(), {
+      transport,
+      minRequestIntervalMs: 0,
+      cache: { defaultTtlMs: 60_000 },
+    });
+
+    await http.get('/v1/settings');
+    await http.put('/v1/settings', { a: 2 });
+    await http.get('/v1/settings');
+
+    expect(transport.callsTo('GET /v1/settings')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,67 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ValidationError } from '../src/errors.js';
+import { decryptSession, encryptSession } from '../src/session/encryption.js';
+import { FileSessionStore } from '../src/session/SessionStore.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'interpal-encryption-'));
+  file = join(dir, 'session.json');
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const encrypted = (key: string, previousKeys?: string[]) => new FileSessionStore(file, 24, { encryption: { key, previousKeys } });
+
+describe('session encryption', () => {
+  it('round-trips and rejects the wrong key', async () => {
+    const envelope = await encryptSession('secret', 'key-1');
+
+    await expect(decryptSession(envelope, 'key-1')).resolves.toBe('secret');
+    await expect(decryptSession(envelope, 'key-2')).rejects.toThrow();
+  });
+
+  it('keeps the session file encrypted and owner-only', async () => {
+    await encrypted('key-1').save({ sessionCookie: 'abc', authToken: 'token' });
+
+    const raw = await fs.readFile(file, 'utf-8');
+    expect(raw).not.toContain('abc');
+    expect(raw).not.toContain('token');
+    expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+    expect(await encrypted('key-1').load()).toMatchObject({ sessionCookie: 'abc', authToken: 'token' });
+  });
+
+  it('encrypts an existing plaintext file when it is read', async () => {
+    await new FileSessionStore(file).save({ sessionCookie: 'abc' });
+
+    expect(await encrypted('key-1').load()).toMatchObject({ sessionCookie: 'abc' });
+    expect(await fs.readFile(file, 'utf-8')).not.toContain('abc');
+  });
+
+  it('re-encrypts a file opened with a previous key', async () => {
+    await encrypted('old').save({ sessionCookie: 'abc' });
+
+    expect(await encrypted('new', ['old']).load()).toMatchObject({ sessionCookie: 'abc' });
+    expect(await encrypted('new').load()).toMatchObject({ sessionCookie: 'abc' });
+  });
+
+  it('clears a file that fails authentication', async () => {
+    await encrypted('key-1').save({ sessionCookie: 'abc' });
+
+    expect(await encrypted('other').load()).toBeNull();
+    await expect(fs.access(file)).rejects.toThrow();
+  });
+
+  it('refuses to run without a key', async () => {
+    const store = new FileSessionStore(file, 24, { encryption: { keyEnvVar: 'TEST_INTERPALS_MISSING_KEY' } });
+
+    await expect(store.save({ sessionCookie: 'abc' })).rejects.toBeInstanceOf(ValidationError);
+  });
+});
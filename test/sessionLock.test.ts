@@ -0,0 +1,167 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { SessionLockError, TransportError } from '../src/errors.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import { FileLock, writeFileAtomic } from '../src/session/FileLock.js';
+import { MemorySessionStore } from '../src/session/SessionStore.js';
+import type { SessionPersistencePayload } from '../src/types/index.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'interpal-lock-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('FileLock', () => {
+  it('runs holders one at a time', async () => {
+    const path = join(dir, 'session.lock');
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(`${name}:start`);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      order.push(`${name}:end`);
+    };
+
+    await Promise.all([
+      new FileLock(path, { retryIntervalMs: 5 }).run(task('a')),
+      new FileLock(path, { retryIntervalMs: 5 }).run(task('b')),
+    ]);
+
+    expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    await expect(fs.access(path)).rejects.toThrow();
+  });
+
+  it('times out while another holder keeps the lock', async () => {
+    const path = join(dir, 'session.lock');
+    const release = await new FileLock(path).acquire();
+
+    await expect(new FileLock(path, { timeoutMs: 30, retryIntervalMs: 5 }).acquire()).rejects.toBeInstanceOf(SessionLockError);
+    await release();
+  });
+
+  it('breaks a lock left by a process that no longer exists', async () => {
+    const path = join(dir, 'session.lock');
+    const { hostname } = await import('node:os');
+    await fs.writeFile(path, JSON.stringify({ pid: 2 ** 22 + 1, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+
+    await expect(new FileLock(path, { timeoutMs: 200, retryIntervalMs: 5 }).run(async () => 'ran')).resolves.toBe('ran');
+  });
+
+  it('leaves alone a lock another waiter took after breaking the stale one', async () => {
+    const path = join(dir, 'session.lock');
+    const { hostname } = await import('node:os');
+    await fs.writeFile(path, JSON.stringify({ pid: 2 ** 22 + 1, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+    const fresh = JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString() });
+    // Between this waiter's staleness check and its removal of the lock, another one replaces it.
+    const readFile = fs.readFile.bind(fs);
+    const spy = vi.spyOn(fs, 'readFile').mockImplementationOnce(async (...args: Parameters<typeof fs.readFile>) => {
+      const contents = await readFile(...args);
+      await fs.unlink(path);
+      await fs.writeFile(path, fresh);
+      return contents;
+    });
+
+    try {
+      await expect(new FileLock(path, { timeoutMs: 30, retryIntervalMs: 5 }).acquire()).rejects.toBeInstanceOf(SessionLockError);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(await fs.readFile(path, 'utf-8')).toBe(fresh);
+    expect(await fs.readdir(dir)).toEqual(['session.lock']);
+  });
+
+  it('writes files atomically without leaving temporary files', async () => {
+    const file = join(dir, 'data.json');
+    await writeFileAtomic(file, '{"a":1}', { mode: 0o600 });
+
+    expect(await fs.readFile(file, 'utf-8')).toBe('{"a":1}');
+    expect(await fs.readdir(dir)).toEqual(['data.json']);
+  });
+});
+
+/** A memory store that records whether each write happened while its lock was held. */
+class LockingStore extends MemorySessionStore {
+  held = false;
+  readonly writes: { op: 'save' | 'clear'; locked: boolean }[] = [];
+
+  async lock<T>(task: () => Promise<T>): Promise<T> {
+    this.held = true;
+    try {
+      return await task();
+    } finally {
+      this.held = false;
+    }
+  }
+
+  protected async write(payload: SessionPersistencePayload): Promise<void> {
+    this.writes.push({ op: 'save', locked: this.held });
+    await super.write(payload);
+  }
+
+  protected async remove(): Promise<void> {
+    this.writes.push({ op: 'clear', locked: this.held });
+    await super.remove();
+  }
+}
+
+const loginRoute = (transport: MockTransport) =>
+  transport.route('POST /v1/token', {
+    data: { auth_token: 'token' },
+    headers: { 'set-cookie': ['interpals_sessid=fresh; Path=/'] },
+  });
+
+describe('InterpalClient session persistence', () => {
+  it('writes the stored session only while holding its lock', async () => {
+    const store = new LockingStore();
+    const transport = loginRoute(new MockTransport())
+      .route('GET /v1/account/self', { data: {} })
+      .route('GET /v1/thread', { data: [], headers: { 'set-cookie': ['interpals_sessid=rotated; Path=/'] } });
+    const client = new InterpalClient({ transport, sessionStore: store, username: 'ann', password: 'pw' });
+
+    await client.login();
+    await client.http.get('/v1/thread');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await client.sessionMonitor?.check();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await client.logout();
+
+    expect(store.writes.length).toBeGreaterThanOrEqual(4);
+    expect(store.writes.filter((write) => !write.locked)).toEqual([]);
+  });
+
+  it('keeps a stored session the server could not be asked about', async () => {
+    const store = new LockingStore();
+    await store.save({ sessionCookie: 'stored', username: 'ann' });
+    const transport = loginRoute(new MockTransport()).route('GET /v1/account/self', () => {
+      throw new TransportError('offline', { code: 'ECONNREFUSED' });
+    });
+    const client = new InterpalClient({ transport, sessionStore: store, username: 'ann', password: 'pw', autoLogin: true });
+
+    await client.initialize();
+
+    expect(client.exportSession().sessionCookie).toBe('stored');
+    expect(await store.load()).toMatchObject({ sessionCookie: 'stored' });
+    expect(transport.callsTo('POST /v1/token')).toHaveLength(0);
+    client.sessionMonitor?.stop();
+  });
+
+  it('replaces a stored session the server rejects', async () => {
+    const store = new LockingStore();
+    await store.save({ sessionCookie: 'stored', username: 'ann' });
+    const transport = loginRoute(new MockTransport()).route('GET /v1/account/self', { status: 401 });
+    const client = new InterpalClient({ transport, sessionStore: store, username: 'ann', password: 'pw', autoLogin: true });
+
+    await client.initialize();
+
+    expect(client.exportSession().sessionCookie).toBe('fresh');
+    expect(await store.load()).toMatchObject({ sessionCookie: 'fresh' });
+    client.sessionMonitor?.stop();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { InterpalClient } from '../src/client/InterpalClient.js';
+import { TransportError } from '../src/errors.js';
+import { MockTransport } from '../src/http/MockTransport.js';
+import { MemorySessionStore } from '../src/session/SessionStore.js';
+import { SessionMonitor, type SessionExpiredEvent, type SessionExpiringEvent } from '../src/session/SessionMonitor.js';
+
+const monitorFor = (transport: MockTransport, sessionExpiresAt?: string, options = {}) => {
+  const auth = new AuthManager(undefined, { transport });
+  auth.importSession('abc', undefined, undefined, undefined, sessionExpiresAt);
+  return new SessionMonitor(auth, options);
+};
+
+describe('SessionMonitor', () => {
+  it('warns before the session cookie expires and reports it once it has', async () => {
+    const expiresAt = new Date(Date.now() + 80).toISOString();
+    const monitor = monitorFor(new MockTransport(), expiresAt, { expiringThresholdMs: 50 });
+    const events: string[] = [];
+    monitor.on('sessionExpiring', (event: SessionExpiringEvent) => {
+      events.push('expiring');
+      expect(event.remainingMs).toBeLessThanOrEqual(50);
+    });
+    const expired = new Promise<SessionExpiredEvent>((resolve) => monitor.once('sessionExpired', resolve));
+
+    monitor.start();
+
+    await expect(expired).resolves.toEqual({ reason: 'expired' });
+    expect(events).toEqual(['expiring']);
+    monitor.stop();
+  });
+
+  it('reports the outcome of a check with the server', async () => {
+    const transport = new MockTransport()
+      .route('GET /v1/account/self', { status: 401 }, { times: 1 })
+      .route('GET /v1/account/self', () => {
+        throw new TransportError('offline', { code: 'ECONNREFUSED' });
+      }, { times: 1 })
+      .route('GET /v1/account/self', { data: {} }, { times: 1 });
+    const monitor = monitorFor(transport);
+    const events: unknown[] = [];
+    monitor.on('sessionValidated', () => events.push('validated'));
+    monitor.on('sessionExpired', (event) => events.push(event));
+
+    expect(await monitor.check()).toBe(true);
+    expect(await monitor.check()).toBe(true);
+    expect(await monitor.check()).toBe(false);
+    expect(events).toEqual(['validated', { reason: 'invalid' }]);
+  });
+});
+
+describe('server-derived session lifetime', () => {
+  it('stores the session until its cookie expires rather than for a fixed time', async () => {
+    const store = new MemorySessionStore();
+    const transport = new MockTransport().route('POST /v1/token', {
+      data: { auth_token: 'token' },
+      headers: { 'set-cookie': ['interpals_sessid=abc; Max-Age=3600; Path=/'] },
+    });
+    const client = new InterpalClient({ transport, sessionStore: store, username: 'ann', password: 'pw' });
+
+    await client.login();
+    const saved = await store.load();
+    client.sessionMonitor?.stop();
+
+    const remaining = Date.parse(saved!.expiresAt) - Date.now();
+    expect(remaining).toBeGreaterThan(3_500_000);
+    expect(remaining).toBeLessThanOrEqual(3_600_000);
+    expect(saved!.sessionExpiresAt).toBe(saved!.expiresAt);
+  });
+
+  it('logs in again when the monitor finds the session rejected', async () => {
+    const transport = new MockTransport()
+      .route('POST /v1/token', { data: { auth_token: 'token' }, headers: { 'set-cookie': ['interpals_sessid=fresh'] } })
+      .route('GET /v1/account/self', { status: 401 }, { times: 1 });
+    const client = new InterpalClient({ transport, sessionCookie: 'stale', username: 'ann', password: 'pw' });
+    const refreshed = new Promise((resolve) => client.once('sessionRefreshed', resolve));
+
+    await client.initialize();
+    await client.sessionMonitor!.check();
+    await refreshed;
+    client.sessionMonitor?.stop();
+
+    expect(client.exportSession().sessionCookie).toBe('fresh');
+  });
+});
@@ -0,0 +1,63 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EnvSessionStore, FileSessionStore, MemorySessionStore, type SessionStore } from '../src/session/SessionStore.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'interpal-session-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+  delete process.env.TEST_INTERPALS_SESSION;
+});
+
+const stores: [string, () => SessionStore][] = [
+  ['MemorySessionStore', () => new MemorySessionStore()],
+  ['FileSessionStore', () => new FileSessionStore(join(dir, 'session.json'))],
+  ['EnvSessionStore', () => new EnvSessionStore('TEST_INTERPALS_SESSION')],
+];
+
+describe.each(stores)('%s', (_name, create) => {
+  it('saves, loads and clears a session', async () => {
+    const store = create();
+    await store.save({ sessionCookie: 'abc', authToken: 'token', username: 'ann', cookies: { interpals_sessid: 'abc' } });
+
+    expect(await store.load()).toMatchObject({ sessionCookie: 'abc', authToken: 'token', username: 'ann' });
+    expect(await store.info()).toMatchObject({ username: 'ann', isExpired: false });
+
+    await store.clear();
+    expect(await store.load()).toBeNull();
+  });
+
+  it('uses the server-given expiry and drops expired sessions', async () => {
+    const store = create();
+    const expiresAt = new Date(Date.now() + 60_000).toISOString();
+    await store.save({ sessionCookie: 'abc', sessionExpiresAt: expiresAt });
+    expect((await store.load())?.expiresAt).toBe(expiresAt);
+
+    await store.save({ sessionCookie: 'abc', sessionExpiresAt: new Date(Date.now() - 1).toISOString() });
+    expect(await store.load()).toBeNull();
+  });
+});
+
+describe('FileSessionStore', () => {
+  it('expires sessions after expirationHours', async () => {
+    const file = join(dir, 'session.json');
+    await new FileSessionStore(file, 2).save({ sessionCookie: 'abc' });
+
+    const info = await new FileSessionStore(file).info();
+    expect(info!.timeRemainingMs).toBeGreaterThan(2 * 3_600_000 - 5_000);
+  });
+});
+
+describe('EnvSessionStore', () => {
+  it('reads base64-encoded sessions without timestamps', async () => {
+    process.env.TEST_INTERPALS_SESSION = Buffer.from(JSON.stringify({ sessionCookie: 'abc' })).toString('base64');
+
+    expect(await new EnvSessionStore('TEST_INTERPALS_SESSION', 1).load()).toMatchObject({ sessionCookie: 'abc' });
+  });
+});
@@ -0,0 +1,60 @@
+import { Readable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { MediaAPI, type UploadProgress } from '../src/api/MediaAPI.js';
+import { AuthManager } from '../src/auth/AuthManager.js';
+import { ValidationError } from '../src/errors.js';
+import { HttpClient } from '../src/http/HttpClient.js';
+import { MockTransport, type MockRequest } from '../src/http/MockTransport.js';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d, 0x49, 0x48, 0x44, 0x52]);
+const png = (size: number) => Buffer.concat([PNG_SIGNATURE, Buffer.alloc(size - PNG_SIGNATURE.length, 1)]);
+
+const readBody = async (data: unknown): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of data as Readable) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('latin1');
+};
+
+const setup = () => {
+  const received: { body: string; headers: Record<string, string> }[] = [];
+  const transport = new MockTransport().route('POST /v1/photo', async ({ data, headers }: MockRequest) => {
+    received.push({ body: await readBody(data), headers });
+    return { data: { id: 'p1' } };
+  });
+  const media = new MediaAPI(new HttpClient(new AuthManager(), { transport, minRequestIntervalMs: 0 }));
+  return { media, received, transport };
+};
+
+describe('MediaAPI.uploadPhoto', () => {
+  it('streams a multipart body with the detected content type and reports progress', async () => {
+    const { media, received } = setup();
+    const progress: UploadProgress[] = [];
+
+    await expect(media.uploadPhoto(png(2048), undefined, 'sunset', { onProgress: (event) => progress.push(event) })).resolves.toEqual({
+      id: 'p1',
+    });
+
+    const [{ body, headers }] = received;
+    expect(headers['Content-Type']).toMatch(/^multipart\/form-data; boundary=/);
+    expect(Number(headers['Content-Length'])).toBe(Buffer.byteLength(body, 'latin1'));
+    expect(body).toContain('filename="photo.png"');
+    expect(body).toContain('Content-Type: image/png');
+    expect(body).toContain('name="caption"\r\n\r\nsunset');
+    expect(progress.at(-1)).toMatchObject({ filename: 'photo.png', loaded: 2048, total: 2048, progress: 1 });
+  });
+
+  it('rejects unsupported formats and oversized files before sending', async () => {
+    const { media, transport } = setup();
+
+    await expect(media.uploadPhoto(Buffer.from('GIF? no, plain text here'))).rejects.toBeInstanceOf(ValidationError);
+    await expect(media.uploadPhoto(png(2048), undefined, undefined, { maxBytes: 1024 })).rejects.toThrow('larger than');
+    expect(transport.calls).toHaveLength(0);
+  });
+
+  it('abandons a stream of unknown length once it passes the limit', async () => {
+    const { media } = setup();
+    const stream = Readable.from([png(512), Buffer.alloc(512), Buffer.alloc(512)]);
+
+    await expect(media.uploadPhoto(stream, 'big.png', undefined, { maxBytes: 1024 })).rejects.toBeInstanceOf(ValidationError);
+  });
+});